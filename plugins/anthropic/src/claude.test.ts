@@ -47,9 +47,11 @@ import {
   fromAnthropicContentBlockChunk,
   fromAnthropicResponse,
   fromAnthropicStopReason,
+  toAnthropicCacheControl,
   toAnthropicMessageContent,
   toAnthropicMessages,
   toAnthropicRequestBody,
+  toAnthropicRequestOptions,
   toAnthropicRole,
   toAnthropicTool,
   toAnthropicToolResponseContent,
@@ -129,6 +131,16 @@ describe('toAnthropicMessageContent', () => {
     );
   });
 
+  it('should send JSON output of earlier turns back as text', () => {
+    expect(
+      toAnthropicMessageContent({ data: { joke: 'Knock knock' } })
+    ).toStrictEqual({
+      type: 'text',
+      text: '{"joke":"Knock knock"}',
+      citations: null,
+    });
+  });
+
   it('should throw if the provided part is invalid', () => {
     expect(() =>
       toAnthropicMessageContent({ fake: 'part' } as Part)
@@ -408,6 +420,52 @@ describe('toAnthropicMessages', () => {
         system: undefined,
       },
     },
+    {
+      should:
+        'should send signed thinking back unchanged and drop unsigned reasoning',
+      inputMessages: [
+        {
+          role: 'model',
+          content: [
+            {
+              reasoning: 'Let me check the weather.',
+              metadata: { signature: 'sig' },
+            },
+            { reasoning: '', metadata: { redactedThinking: 'EncryptedData' } },
+            { reasoning: 'Reasoning of another model.' },
+            {
+              toolRequest: {
+                ref: 'toolu_01',
+                name: 'getWeather',
+                input: { city: 'Paris' },
+              },
+            },
+          ],
+        },
+      ],
+      expectedOutput: {
+        messages: [
+          {
+            role: 'assistant',
+            content: [
+              {
+                type: 'thinking',
+                thinking: 'Let me check the weather.',
+                signature: 'sig',
+              },
+              { type: 'redacted_thinking', data: 'EncryptedData' },
+              {
+                type: 'tool_use',
+                id: 'toolu_01',
+                name: 'getWeather',
+                input: { city: 'Paris' },
+              },
+            ],
+          },
+        ],
+        system: undefined,
+      },
+    },
   ];
 
   for (const test of testCases) {
@@ -416,6 +474,80 @@ describe('toAnthropicMessages', () => {
       expect(actualOutput).toStrictEqual(test.expectedOutput);
     });
   }
+
+  it('should set cache breakpoints from message and part metadata', () => {
+    const output = toAnthropicMessages([
+      {
+        role: 'system',
+        content: [{ text: 'You are a helpful assistant' }],
+        metadata: { cache_control: { type: 'ephemeral', ttl: '1h' } },
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            text: 'A long document',
+            metadata: { cache_control: { type: 'ephemeral' } },
+          },
+          { text: 'Summarize it.' },
+        ],
+      },
+      {
+        role: 'model',
+        content: [{ text: 'It is about dogs.' }],
+        metadata: { cache_control: { type: 'ephemeral' } },
+      },
+    ]);
+    expect(output).toStrictEqual({
+      system: [
+        {
+          type: 'text',
+          text: 'You are a helpful assistant',
+          cache_control: { type: 'ephemeral', ttl: '1h' },
+        },
+      ],
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: 'A long document',
+              citations: null,
+              cache_control: { type: 'ephemeral' },
+            },
+            { type: 'text', text: 'Summarize it.', citations: null },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'text',
+              text: 'It is about dogs.',
+              citations: null,
+              cache_control: { type: 'ephemeral' },
+            },
+          ],
+        },
+      ],
+    });
+  });
+});
+
+describe('toAnthropicCacheControl', () => {
+  it('should return undefined without a breakpoint', () => {
+    expect(toAnthropicCacheControl()).toBeUndefined();
+    expect(toAnthropicCacheControl({ other: true })).toBeUndefined();
+  });
+
+  it('should throw for an invalid TTL', () => {
+    expect(() =>
+      toAnthropicCacheControl({
+        cache_control: { type: 'ephemeral', ttl: '2h' },
+      })
+    ).toThrow();
+  });
 });
 
 describe('toAnthropicTool', () => {
@@ -497,6 +629,59 @@ describe('fromAnthropicContentBlockChunk', () => {
         },
       },
     },
+    {
+      should: 'should return reasoning part from thinking_delta event',
+      event: {
+        index: 0,
+        type: 'content_block_delta',
+        delta: {
+          type: 'thinking_delta',
+          thinking: 'Let me think.',
+        },
+      },
+      expectedOutput: { reasoning: 'Let me think.' },
+    },
+    {
+      should: 'should return redacted thinking from content_block_start event',
+      event: {
+        index: 0,
+        type: 'content_block_start',
+        content_block: {
+          type: 'redacted_thinking',
+          data: 'EncryptedData',
+        },
+      },
+      expectedOutput: {
+        reasoning: '',
+        metadata: { redactedThinking: 'EncryptedData' },
+      },
+    },
+    {
+      should: 'should return undefined for the start of the JSON output tool',
+      event: {
+        index: 0,
+        type: 'content_block_start',
+        content_block: {
+          type: 'tool_use',
+          id: 'toolu_01',
+          name: 'json_output',
+          input: {},
+        },
+      },
+      expectedOutput: undefined,
+    },
+    {
+      should: 'should return undefined for signature_delta events',
+      event: {
+        index: 0,
+        type: 'content_block_delta',
+        delta: {
+          type: 'signature_delta',
+          signature: 'sig',
+        },
+      },
+      expectedOutput: undefined,
+    },
     {
       should: 'should return undefined for any other event',
       event: {
@@ -512,6 +697,18 @@ describe('fromAnthropicContentBlockChunk', () => {
       expect(actualOutput).toStrictEqual(test.expectedOutput);
     });
   }
+
+  it('should stream partial JSON output as text', () => {
+    const actualOutput = fromAnthropicContentBlockChunk(
+      {
+        index: 0,
+        type: 'content_block_delta',
+        delta: { type: 'input_json_delta', partial_json: '{"joke": "Why' },
+      },
+      true
+    );
+    expect(actualOutput).toStrictEqual({ text: '{"joke": "Why' });
+  });
 });
 
 describe('fromAnthropicStopReason', () => {
@@ -650,6 +847,144 @@ describe('fromAnthropicResponse', () => {
         custom: expect.any(Object),
       },
     },
+    {
+      should: 'should return the JSON output tool input as a data part',
+      message: {
+        id: 'abc123',
+        model: 'whatever',
+        type: 'message',
+        role: 'assistant',
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        content: [
+          {
+            type: 'tool_use',
+            id: 'toolu_01',
+            name: 'json_output',
+            input: { joke: 'Why did the dog sit in the shade?' },
+          },
+        ],
+        usage: {
+          input_tokens: 10,
+          output_tokens: 20,
+          cache_creation_input_tokens: null,
+          cache_read_input_tokens: null,
+        },
+      },
+      expectedOutput: {
+        candidates: [
+          {
+            index: 0,
+            finishReason: 'stop',
+            message: {
+              role: 'model',
+              content: [
+                { data: { joke: 'Why did the dog sit in the shade?' } },
+              ],
+            },
+          },
+        ],
+        usage: {
+          inputTokens: 10,
+          outputTokens: 20,
+        },
+        custom: expect.any(Object),
+      },
+    },
+    {
+      should: 'should report prompt cache usage',
+      message: {
+        id: 'abc123',
+        model: 'whatever',
+        type: 'message',
+        role: 'assistant',
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        content: [{ type: 'text', text: 'Hi', citations: null }],
+        usage: {
+          input_tokens: 10,
+          output_tokens: 20,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 2048,
+        },
+      },
+      expectedOutput: {
+        candidates: [
+          {
+            index: 0,
+            finishReason: 'stop',
+            message: { role: 'model', content: [{ text: 'Hi' }] },
+          },
+        ],
+        usage: {
+          inputTokens: 10,
+          outputTokens: 20,
+          cachedContentTokens: 2048,
+          custom: { cacheReadInputTokens: 2048, cacheCreationInputTokens: 0 },
+        },
+        custom: expect.any(Object),
+      },
+    },
+    {
+      should: 'should return thinking as reasoning parts',
+      message: {
+        id: 'abc123',
+        model: 'whatever',
+        type: 'message',
+        role: 'assistant',
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        content: [
+          {
+            type: 'thinking',
+            thinking: 'Dogs are funny.',
+            signature: 'sig',
+          },
+          {
+            type: 'redacted_thinking',
+            data: 'EncryptedData',
+          },
+          {
+            type: 'text',
+            text: 'Why did the dog sit in the shade?',
+            citations: null,
+          },
+        ],
+        usage: {
+          input_tokens: 10,
+          output_tokens: 20,
+          cache_creation_input_tokens: null,
+          cache_read_input_tokens: null,
+        },
+      },
+      expectedOutput: {
+        candidates: [
+          {
+            index: 0,
+            finishReason: 'stop',
+            message: {
+              role: 'model',
+              content: [
+                {
+                  reasoning: 'Dogs are funny.',
+                  metadata: { signature: 'sig' },
+                },
+                {
+                  reasoning: '',
+                  metadata: { redactedThinking: 'EncryptedData' },
+                },
+                { text: 'Why did the dog sit in the shade?' },
+              ],
+            },
+          },
+        ],
+        usage: {
+          inputTokens: 10,
+          outputTokens: 20,
+        },
+        custom: expect.any(Object),
+      },
+    },
   ];
 
   for (const test of testCases) {
@@ -882,6 +1217,177 @@ describe('toAnthropicRequestBody', () => {
     });
   }
 
+  it('should enable thinking with its budget', () => {
+    const request: GenerateRequest<typeof AnthropicConfigSchema> = {
+      messages: [{ role: 'user', content: [{ text: 'Hi' }] }],
+      config: { thinking: { enabled: true, budget_tokens: 2048 } },
+    };
+    const output = toAnthropicRequestBody('claude-3-7-sonnet', request);
+    expect(output.thinking).toStrictEqual({
+      type: 'enabled',
+      budget_tokens: 2048,
+    });
+    expect(output.max_tokens).toBe(6144);
+
+    const withoutBudget = toAnthropicRequestBody('claude-3-7-sonnet', {
+      ...request,
+      config: { thinking: { enabled: true }, maxOutputTokens: 2000 },
+    });
+    expect(withoutBudget.thinking).toStrictEqual({
+      type: 'enabled',
+      budget_tokens: 1024,
+    });
+    expect(withoutBudget.max_tokens).toBe(2000);
+
+    const disabled = toAnthropicRequestBody('claude-3-7-sonnet', {
+      ...request,
+      config: { thinking: { enabled: false } },
+    });
+    expect(disabled.thinking).toBeUndefined();
+  });
+
+  it('should force a synthetic tool for JSON output', () => {
+    const schema = {
+      type: 'object',
+      properties: { joke: { type: 'string' } },
+      required: ['joke'],
+    };
+    const output = toAnthropicRequestBody('claude-3-5-haiku', {
+      messages: [{ role: 'user', content: [{ text: 'Tell a joke.' }] }],
+      output: { format: 'json', schema, constrained: true },
+      config: { tool_choice: { type: 'auto' } },
+    });
+    expect(output.tools).toStrictEqual([
+      {
+        name: 'json_output',
+        description: 'Responds to the user with JSON conforming to the schema.',
+        input_schema: schema,
+      },
+    ]);
+    expect(output.tool_choice).toStrictEqual({
+      type: 'tool',
+      name: 'json_output',
+    });
+  });
+
+  it('should not force JSON output when it is not constrained', () => {
+    const output = toAnthropicRequestBody('claude-3-5-haiku', {
+      messages: [{ role: 'user', content: [{ text: 'Tell a joke.' }] }],
+      output: { format: 'json', constrained: false },
+    });
+    expect(output.tools).toBeUndefined();
+    expect(output.tool_choice).toBeUndefined();
+  });
+
+  it('should not force JSON output alongside other tools', () => {
+    const tool = {
+      name: 'tellAJoke',
+      description: 'Tells a joke',
+      inputSchema: { type: 'object' },
+    };
+    const output = toAnthropicRequestBody('claude-3-5-haiku', {
+      messages: [{ role: 'user', content: [{ text: 'Tell a joke.' }] }],
+      tools: [tool],
+      output: { format: 'json', constrained: true },
+    });
+    expect(output.tools).toStrictEqual([
+      {
+        name: 'tellAJoke',
+        description: 'Tells a joke',
+        input_schema: { type: 'object' },
+      },
+    ]);
+    expect(output.tool_choice).toBeUndefined();
+  });
+
+  it('should send JSON output back in the next turn', () => {
+    const output = toAnthropicRequestBody('claude-3-5-haiku', {
+      messages: [
+        { role: 'user', content: [{ text: 'Tell a joke.' }] },
+        { role: 'model', content: [{ data: { joke: 'Knock knock' } }] },
+        { role: 'user', content: [{ text: 'Another one.' }] },
+      ],
+      output: { format: 'json', constrained: true },
+    });
+    expect(output.messages[1]).toStrictEqual({
+      role: 'assistant',
+      content: [
+        { type: 'text', text: '{"joke":"Knock knock"}', citations: null },
+      ],
+    });
+  });
+
+  it('should throw for JSON output with a non-object schema', () => {
+    expect(() =>
+      toAnthropicRequestBody('claude-3-5-haiku', {
+        messages: [],
+        output: { format: 'json', schema: { type: 'array' } },
+      })
+    ).toThrowError(
+      'JSON output requires an object schema for Claude models, got type array'
+    );
+  });
+
+  it('should throw for JSON output with extended thinking', () => {
+    expect(() =>
+      toAnthropicRequestBody('claude-3-7-sonnet', {
+        messages: [],
+        output: { format: 'json' },
+        config: { thinking: { enabled: true } },
+      })
+    ).toThrowError(
+      'JSON output cannot be combined with extended thinking for Claude models'
+    );
+  });
+
+  it('should cache tool definitions', () => {
+    const tool = {
+      name: 'tellAJoke',
+      description: 'Tells a joke',
+      inputSchema: { type: 'object' },
+    };
+    const output = toAnthropicRequestBody('claude-3-5-haiku', {
+      messages: [],
+      tools: [
+        tool,
+        {
+          ...tool,
+          name: 'tellAStory',
+          metadata: { cache_control: { type: 'ephemeral' } },
+        },
+        tool,
+      ],
+      config: { cache_tools: { type: 'ephemeral', ttl: '1h' } },
+    });
+    expect(output.tools?.map((t) => t.cache_control)).toStrictEqual([
+      undefined,
+      { type: 'ephemeral' },
+      { type: 'ephemeral', ttl: '1h' },
+    ]);
+  });
+
+  it('should throw for more than four cache breakpoints', () => {
+    const cached = {
+      text: 'Some context.',
+      metadata: { cache_control: { type: 'ephemeral' } },
+    };
+    expect(() =>
+      toAnthropicRequestBody(
+        'claude-3-5-haiku',
+        {
+          messages: [
+            { role: 'system', content: [{ text: 'You are helpful.' }] },
+            { role: 'user', content: [cached, cached, cached, cached] },
+          ],
+        },
+        false,
+        true
+      )
+    ).toThrowError(
+      'Claude requests can have at most 4 cache breakpoints, got 5'
+    );
+  });
+
   it('should throw if model is not supported', () => {
     expect(() =>
       toAnthropicRequestBody('fake-model', {
@@ -890,7 +1396,7 @@ describe('toAnthropicRequestBody', () => {
     ).toThrowError('Unsupported model: fake-model');
   });
 
-  it('should throw if output format is not text', () => {
+  it('should throw if output format is not text or json', () => {
     expect(() =>
       toAnthropicRequestBody('claude-3-5-haiku', {
         messages: [],
@@ -898,7 +1404,7 @@ describe('toAnthropicRequestBody', () => {
         output: { format: 'media' },
       } as GenerateRequest<typeof AnthropicConfigSchema>)
     ).toThrowError(
-      'Only text output format is supported for Claude models currently'
+      'Only text and json output formats are supported for Claude models currently'
     );
   });
 
@@ -1034,6 +1540,44 @@ describe('claudeRunner', () => {
   });
 });
 
+describe('toAnthropicRequestOptions', () => {
+  const signal = new AbortController().signal;
+
+  function cachedRequest(ttl?: '5m' | '1h') {
+    return toAnthropicRequestBody('claude-3-5-haiku', {
+      messages: [
+        {
+          role: 'user',
+          content: [
+            {
+              text: 'Some context.',
+              metadata: { cache_control: { type: 'ephemeral', ttl } },
+            },
+          ],
+        },
+      ],
+    });
+  }
+
+  it('should enable the extended cache TTL beta for 1 hour breakpoints', () => {
+    expect(
+      toAnthropicRequestOptions(cachedRequest('1h'), signal)
+    ).toStrictEqual({
+      signal,
+      headers: { 'anthropic-beta': 'extended-cache-ttl-2025-04-11' },
+    });
+  });
+
+  it('should not set beta headers for 5 minute breakpoints', () => {
+    expect(
+      toAnthropicRequestOptions(cachedRequest('5m'), signal)
+    ).toStrictEqual({ signal });
+    expect(toAnthropicRequestOptions(cachedRequest(), signal)).toStrictEqual({
+      signal,
+    });
+  });
+});
+
 describe('claudeModel', () => {
   afterEach(() => {
     jest.clearAllMocks();
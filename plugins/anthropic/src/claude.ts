@@ -18,6 +18,7 @@ import { Message as GenkitMessage, z } from 'genkit';
 import type {
   GenerateResponseData,
   GenerateRequest,
+  GenerationUsage,
   MessageData,
   Part,
   Role,
@@ -34,6 +35,7 @@ import type {
 import { modelRef } from 'genkit/model';
 import type Anthropic from '@anthropic-ai/sdk';
 import type {
+  CacheControlEphemeral,
   ImageBlockParam,
   TextBlock,
   TextBlockParam,
@@ -44,10 +46,36 @@ import type {
   Message,
   MessageParam,
   MessageStreamEvent,
+  RedactedThinkingBlockParam,
+  ThinkingBlockParam,
   ToolUseBlockParam,
 } from '@anthropic-ai/sdk/resources/messages.mjs';
 import { model } from 'genkit/plugin';
 
+/**
+ * A cache breakpoint, set as `cache_control` in the metadata of a message, a
+ * part or a tool definition. The prompt is cached up to the breakpoint.
+ */
+export const CacheControlSchema = z.object({
+  type: z.literal('ephemeral'),
+  /** How long the cache lives without being read. Defaults to 5 minutes. */
+  ttl: z.enum(['5m', '1h']).optional(),
+});
+
+export type CacheControl = z.infer<typeof CacheControlSchema>;
+
+/**
+ * The `cache_control` of the API. The TTL is not in the types of the SDK
+ * version the plugin depends on.
+ */
+type CacheControlParam = CacheControlEphemeral & Pick<CacheControl, 'ttl'>;
+
+/** The API allows this many cache breakpoints per request. */
+const MAX_CACHE_BREAKPOINTS = 4;
+
+/** The beta the 1 hour cache TTL needs with the SDK the plugin depends on. */
+const EXTENDED_CACHE_TTL_BETA = 'extended-cache-ttl-2025-04-11';
+
 export const AnthropicConfigSchema = GenerationCommonConfigSchema.extend({
   tool_choice: z
     .union([
@@ -68,8 +96,37 @@ export const AnthropicConfigSchema = GenerationCommonConfigSchema.extend({
       user_id: z.string().optional(),
     })
     .optional(),
+  /**
+   * Extended thinking, for Claude 3.7 Sonnet and later. The thinking is
+   * returned as `reasoning` parts before the answer.
+   */
+  thinking: z
+    .object({
+      enabled: z.boolean(),
+      /**
+       * The number of tokens Claude can think with, out of the output tokens.
+       * At least 1024, which is the default.
+       */
+      budget_tokens: z.number().int().min(1024).optional(),
+    })
+    .optional(),
+  /**
+   * Sets a cache breakpoint after the last tool definition, caching all of
+   * them. Genkit does not pass the metadata of tools defined with
+   * `defineTool` to models, so this is how they are usually cached.
+   */
+  cache_tools: CacheControlSchema.optional(),
 });
 
+/** The smallest thinking budget the API accepts. */
+const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * The synthetic tool Claude is forced to call for JSON output. Its input is
+ * the JSON, conforming to the output schema.
+ */
+const JSON_OUTPUT_TOOL = 'json_output';
+
 export const claude4Sonnet = modelRef({
   name: 'claude-4-sonnet',
   namespace: 'anthropic',
@@ -81,7 +138,9 @@ export const claude4Sonnet = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -99,7 +158,9 @@ export const claude37Sonnet = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -121,7 +182,9 @@ export const claude35Sonnet = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -139,7 +202,9 @@ export const claude3Opus = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -157,7 +222,9 @@ export const claude3Sonnet = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -175,7 +242,9 @@ export const claude3Haiku = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -193,7 +262,9 @@ export const claude4Opus = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -211,7 +282,9 @@ export const claude35Haiku = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -229,7 +302,9 @@ export const claude45Sonnet = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -247,7 +322,9 @@ export const claude45Haiku = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -265,7 +342,9 @@ export const claude45Opus = modelRef({
       tools: true,
       media: true,
       systemRole: true,
-      output: ['text'],
+      output: ['text', 'json'],
+      // JSON output forces a tool, so it can't be combined with other tools
+      constrained: 'no-tools',
     },
   },
   configSchema: AnthropicConfigSchema,
@@ -373,12 +452,110 @@ export function toAnthropicToolResponseContent(
       };
 }
 
+/**
+ * Whether a part is reasoning that Anthropic can't accept back, because it
+ * has no signature, e.g. the reasoning of another model.
+ */
+function isUnsignedReasoning(part: Part): boolean {
+  return (
+    part.reasoning !== undefined &&
+    !part.metadata?.signature &&
+    !part.metadata?.redactedThinking
+  );
+}
+
+/**
+ * Reads the cache breakpoint from the metadata of a message, part or tool.
+ * @param metadata The metadata, which may set `cache_control`.
+ * @returns The Anthropic cache control, or undefined when there is none.
+ */
+export function toAnthropicCacheControl(
+  metadata?: Record<string, unknown>
+): CacheControlParam | undefined {
+  if (!metadata?.cache_control) return undefined;
+  return toCacheControlParam(CacheControlSchema.parse(metadata.cache_control));
+}
+
+function toCacheControlParam({ type, ttl }: CacheControl): CacheControlParam {
+  return ttl ? { type, ttl } : { type };
+}
+
+/**
+ * Lists the cache breakpoints of a request body: those of the system prompt,
+ * of the tools and of the message content.
+ */
+function cacheBreakpointsOf(
+  body: MessageCreateParams
+): CacheControlEphemeral[] {
+  const blocks = [
+    ...(Array.isArray(body.system) ? body.system : []),
+    ...(body.tools ?? []),
+    // Empty fields are removed from request bodies
+    ...(body.messages ?? []).flatMap((message) =>
+      typeof message.content === 'string' ? [] : message.content
+    ),
+  ];
+  return blocks.flatMap((block) =>
+    'cache_control' in block && block.cache_control ? [block.cache_control] : []
+  );
+}
+
+/**
+ * Sets a cache breakpoint on a content block. Thinking blocks can't be
+ * breakpoints, so they are left as is.
+ */
+function withCacheControl<T extends ReturnType<typeof toAnthropicContentBlock>>(
+  block: T,
+  cacheControl?: CacheControlEphemeral
+): T {
+  if (
+    !cacheControl ||
+    block.type === 'thinking' ||
+    block.type === 'redacted_thinking'
+  ) {
+    return block;
+  }
+  return { ...block, cache_control: cacheControl };
+}
+
 /**
  * Converts a Genkit Part to the corresponding Anthropic TextBlock, ImageBlockParam, etc.
+ * A `cache_control` in the part metadata makes it a cache breakpoint.
  */
-export function toAnthropicMessageContent(
+export function toAnthropicMessageContent(part: Part) {
+  return withCacheControl(
+    toAnthropicContentBlock(part),
+    toAnthropicCacheControl(part.metadata)
+  );
+}
+
+/**
+ * Converts a Genkit Part to an Anthropic content block, without its cache
+ * breakpoint.
+ */
+function toAnthropicContentBlock(
   part: Part
-): TextBlock | ImageBlockParam | ToolUseBlockParam | ToolResultBlockParam {
+):
+  | TextBlock
+  | ImageBlockParam
+  | ToolUseBlockParam
+  | ToolResultBlockParam
+  | ThinkingBlockParam
+  | RedactedThinkingBlockParam {
+  if (part.reasoning !== undefined && part.metadata?.redactedThinking) {
+    return {
+      type: 'redacted_thinking',
+      data: part.metadata.redactedThinking as string,
+    };
+  }
+  if (part.reasoning !== undefined && part.metadata?.signature) {
+    // Thinking blocks must be sent back unchanged, signature included
+    return {
+      type: 'thinking',
+      thinking: part.reasoning,
+      signature: part.metadata.signature as string,
+    };
+  }
   if (part.text) {
     return {
       type: 'text',
@@ -386,6 +563,15 @@ export function toAnthropicMessageContent(
       citations: null,
     };
   }
+  if (part.data !== undefined) {
+    // The output tool is only defined for requests with JSON output, so JSON
+    // output of earlier turns is sent back as text
+    return {
+      type: 'text',
+      text: JSON.stringify(part.data),
+      citations: null,
+    };
+  }
   if (part.media) {
     const { data, contentType } =
       extractDataFromBase64Url(part.media.url) ?? {};
@@ -434,16 +620,39 @@ export function toAnthropicMessageContent(
  * @returns An object containing the optional Anthropic system message and the array of Anthropic MessageParam objects.
  */
 export function toAnthropicMessages(messages: MessageData[]): {
-  system?: string;
+  system?: string | TextBlockParam[];
   messages: MessageParam[];
 } {
-  const system =
+  const systemText =
     messages[0]?.role === 'system' ? messages[0].content?.[0]?.text : undefined;
+  const systemCacheControl = systemText
+    ? (toAnthropicCacheControl(messages[0].metadata) ??
+      toAnthropicCacheControl(messages[0].content[0].metadata))
+    : undefined;
+  const system = systemCacheControl
+    ? [
+        {
+          type: 'text' as const,
+          text: systemText!,
+          cache_control: systemCacheControl,
+        },
+      ]
+    : systemText;
   const messagesToIterate = system ? messages.slice(1) : messages;
   const anthropicMsgs: MessageParam[] = [];
   for (const message of messagesToIterate) {
     const msg = new GenkitMessage(message);
-    const content = msg.content.map(toAnthropicMessageContent);
+    const content = msg.content
+      .filter((part) => !isUnsignedReasoning(part))
+      .map(toAnthropicMessageContent);
+    // A breakpoint on a message caches it up to its last block
+    const messageCacheControl = toAnthropicCacheControl(message.metadata);
+    if (messageCacheControl && content.length) {
+      content[content.length - 1] = withCacheControl(
+        content[content.length - 1],
+        messageCacheControl
+      );
+    }
     const toolMessageType = content.find(
       (c) => c.type === 'tool_use' || c.type === 'tool_result'
     ) as ToolUseBlockParam | ToolResultBlockParam;
@@ -462,10 +671,31 @@ export function toAnthropicMessages(messages: MessageData[]): {
  * @returns The converted Anthropic Tool object.
  */
 export function toAnthropicTool(tool: ToolDefinition): Tool {
+  const cacheControl = toAnthropicCacheControl(tool.metadata);
   return {
     name: tool.name,
     description: tool.description,
     input_schema: tool.inputSchema as Tool.InputSchema,
+    ...(cacheControl && { cache_control: cacheControl }),
+  };
+}
+
+/**
+ * Makes the synthetic tool whose input is the JSON output of the request.
+ * @param schema The JSON schema of the output, if any.
+ * @returns The tool, which accepts any object when there is no schema.
+ * @throws An error if the schema is not an object schema, which tools require.
+ */
+export function toAnthropicJsonOutputTool(schema?: Record<string, any>): Tool {
+  if (schema && schema.type !== 'object') {
+    throw new Error(
+      `JSON output requires an object schema for Claude models, got type ${schema.type}`
+    );
+  }
+  return {
+    name: JSON_OUTPUT_TOOL,
+    description: 'Responds to the user with JSON conforming to the schema.',
+    input_schema: (schema ?? { type: 'object' }) as Tool.InputSchema,
   };
 }
 
@@ -478,6 +708,12 @@ export function toAnthropicTool(tool: ToolDefinition): Tool {
  *          start or delta, otherwise undefined.
  */
 function fromAnthropicContentBlock(contentBlock: ContentBlock): Part {
+  if (
+    contentBlock.type === 'tool_use' &&
+    contentBlock.name === JSON_OUTPUT_TOOL
+  ) {
+    return { data: contentBlock.input };
+  }
   if (contentBlock.type === 'tool_use') {
     return {
       toolRequest: {
@@ -489,9 +725,16 @@ function fromAnthropicContentBlock(contentBlock: ContentBlock): Part {
   } else if (contentBlock.type === 'text') {
     return { text: contentBlock.text };
   } else if (contentBlock.type === 'thinking') {
-    return { text: contentBlock.thinking };
+    return {
+      reasoning: contentBlock.thinking,
+      metadata: { signature: contentBlock.signature },
+    };
   } else if (contentBlock.type === 'redacted_thinking') {
-    return { text: contentBlock.data };
+    // The thinking is encrypted, it is only kept to be sent back
+    return {
+      reasoning: '',
+      metadata: { redactedThinking: contentBlock.data },
+    };
   } else {
     // Handle other content block types
     return { text: '' };
@@ -500,9 +743,13 @@ function fromAnthropicContentBlock(contentBlock: ContentBlock): Part {
 
 /**
  * Converts an Anthropic message stream event to a Genkit Part object.
+ * @param event The Anthropic message stream event to convert.
+ * @param jsonOutput Whether the request forced JSON output, whose partial
+ * JSON is then streamed as text.
  */
 export function fromAnthropicContentBlockChunk(
-  event: MessageStreamEvent
+  event: MessageStreamEvent,
+  jsonOutput?: boolean
 ): Part | undefined {
   if (
     event.type !== 'content_block_start' &&
@@ -512,6 +759,27 @@ export function fromAnthropicContentBlockChunk(
   }
   const eventField =
     event.type === 'content_block_start' ? 'content_block' : 'delta';
+  switch (event[eventField].type) {
+    case 'thinking':
+      return { reasoning: event[eventField].thinking };
+    case 'thinking_delta':
+      return { reasoning: event[eventField].thinking };
+    case 'redacted_thinking':
+      return {
+        reasoning: '',
+        metadata: { redactedThinking: event[eventField].data },
+      };
+    case 'signature_delta':
+      // The signature is only needed in the final response
+      return;
+    case 'tool_use':
+      // The JSON output is streamed by its deltas
+      if (event[eventField].name === JSON_OUTPUT_TOOL) return;
+      break;
+    case 'input_json_delta':
+      if (jsonOutput) return { text: event[eventField].partial_json };
+      break;
+  }
   return ['text', 'text_delta'].includes(event[eventField].type)
     ? {
         text: event[eventField].text,
@@ -545,6 +813,27 @@ export function fromAnthropicStopReason(
   }
 }
 
+/**
+ * Reports the tokens read from and written to the prompt cache. Anthropic
+ * counts them apart from `input_tokens`.
+ * @param usage The usage of the response.
+ * @returns The cache usage, or an empty object when caching wasn't used.
+ */
+function fromAnthropicCacheUsage(
+  usage: Message['usage']
+): Partial<GenerationUsage> {
+  const read = usage.cache_read_input_tokens;
+  const creation = usage.cache_creation_input_tokens;
+  if (read == null && creation == null) return {};
+  return {
+    cachedContentTokens: read ?? 0,
+    custom: {
+      cacheReadInputTokens: read ?? 0,
+      cacheCreationInputTokens: creation ?? 0,
+    },
+  };
+}
+
 export function fromAnthropicResponse(response: Message): GenerateResponseData {
   return {
     candidates: [
@@ -560,6 +849,7 @@ export function fromAnthropicResponse(response: Message): GenerateResponseData {
     usage: {
       inputTokens: response.usage.input_tokens,
       outputTokens: response.usage.output_tokens,
+      ...fromAnthropicCacheUsage(response.usage),
     },
     custom: response,
   };
@@ -584,9 +874,36 @@ export function toAnthropicRequestBody(
   if (!model) throw new Error(`Unsupported model: ${modelName}`);
   const { system, messages } = toAnthropicMessages(request.messages);
   const mappedModelName = request.config?.version ?? model.version ?? modelName;
+  const thinking = request.config?.thinking?.enabled
+    ? {
+        type: 'enabled' as const,
+        budget_tokens:
+          request.config.thinking.budget_tokens ?? MIN_THINKING_BUDGET,
+      }
+    : undefined;
+  // Forcing the output tool would keep the model from calling the other
+  // tools, so JSON output is only constrained without them. Genkit also
+  // simulates constrained output with a schema when there are tools.
+  const jsonOutput =
+    request.output?.format === 'json' &&
+    request.output.constrained !== false &&
+    !request.tools?.length;
+  if (jsonOutput && thinking) {
+    throw new Error(
+      'JSON output cannot be combined with extended thinking for Claude models'
+    );
+  }
+  const tools = request.tools?.map(toAnthropicTool) ?? [];
+  if (jsonOutput) tools.push(toAnthropicJsonOutputTool(request.output?.schema));
+  if (request.config?.cache_tools && tools.length) {
+    tools[tools.length - 1] = {
+      ...tools[tools.length - 1],
+      cache_control: toCacheControlParam(request.config.cache_tools),
+    };
+  }
   const body: MessageCreateParams = {
     system:
-      cacheSystemPrompt && system
+      cacheSystemPrompt && typeof system === 'string'
         ? [
             {
               type: 'text',
@@ -596,21 +913,37 @@ export function toAnthropicRequestBody(
           ]
         : system,
     messages,
-    tools: request.tools?.map(toAnthropicTool),
-    max_tokens: request.config?.maxOutputTokens ?? 4096,
+    tools,
+    // The thinking budget is part of the output tokens
+    max_tokens:
+      request.config?.maxOutputTokens ??
+      (thinking ? thinking.budget_tokens + 4096 : 4096),
     model: mappedModelName,
     top_k: request.config?.topK,
     top_p: request.config?.topP,
     temperature: request.config?.temperature,
     stop_sequences: request.config?.stopSequences,
     metadata: request.config?.metadata,
-    tool_choice: request.config?.tool_choice,
+    tool_choice: jsonOutput
+      ? { type: 'tool', name: JSON_OUTPUT_TOOL }
+      : request.config?.tool_choice,
+    thinking,
     stream,
   };
 
-  if (request.output?.format && request.output.format !== 'text') {
+  if (
+    request.output?.format &&
+    request.output.format !== 'text' &&
+    request.output.format !== 'json'
+  ) {
     throw new Error(
-      `Only text output format is supported for Claude models currently`
+      `Only text and json output formats are supported for Claude models currently`
+    );
+  }
+  const breakpoints = cacheBreakpointsOf(body).length;
+  if (breakpoints > MAX_CACHE_BREAKPOINTS) {
+    throw new Error(
+      `Claude requests can have at most ${MAX_CACHE_BREAKPOINTS} cache breakpoints, got ${breakpoints}`
     );
   }
   for (const key in body) {
@@ -620,6 +953,28 @@ export function toAnthropicRequestBody(
   return body;
 }
 
+/**
+ * Makes the options of a request. Cache breakpoints with a 1 hour TTL need
+ * the extended cache TTL beta.
+ * @param body The request body, as built by `toAnthropicRequestBody`.
+ * @param signal The signal that aborts the request.
+ * @returns The request options.
+ */
+export function toAnthropicRequestOptions(
+  body: MessageCreateParams,
+  signal?: AbortSignal
+): Anthropic.RequestOptions {
+  const extendedTtl = cacheBreakpointsOf(body).some(
+    (cacheControl) => 'ttl' in cacheControl && cacheControl.ttl === '1h'
+  );
+  return {
+    signal,
+    ...(extendedTtl && {
+      headers: { 'anthropic-beta': EXTENDED_CACHE_TTL_BETA },
+    }),
+  };
+}
+
 /**
  * Creates the runner used by Genkit to interact with the Claude model.
  * @param name The name of the Claude model.
@@ -653,9 +1008,15 @@ export function claudeRunner(
     );
 
     if (streamingRequested) {
-      const stream = client.messages.stream(body, { signal: abortSignal });
+      const stream = client.messages.stream(
+        body,
+        toAnthropicRequestOptions(body, abortSignal)
+      );
+      const jsonOutput =
+        body.tool_choice?.type === 'tool' &&
+        body.tool_choice.name === JSON_OUTPUT_TOOL;
       for await (const chunk of stream) {
-        const c = fromAnthropicContentBlockChunk(chunk);
+        const c = fromAnthropicContentBlockChunk(chunk, jsonOutput);
         if (c) {
           sendChunk({
             index: 0,
@@ -665,9 +1026,10 @@ export function claudeRunner(
       }
       response = await stream.finalMessage();
     } else {
-      response = (await client.messages.create(body, {
-        signal: abortSignal,
-      })) as Message;
+      response = (await client.messages.create(
+        body,
+        toAnthropicRequestOptions(body, abortSignal)
+      )) as Message;
     }
     return fromAnthropicResponse(response);
   };
@@ -50,6 +50,8 @@ export {
   claude45Opus,
 };
 
+export { CacheControlSchema, type CacheControl } from './claude.js';
+
 export interface PluginOptions {
   apiKey?: string;
   cacheSystemPrompt?: boolean;
@@ -90,7 +92,7 @@ async function list(client: Anthropic): Promise<ActionMetadata[]> {
  * - anthropic: The main plugin function to interact with the Anthropic AI.
  *
  * Usage:
- * To use the Claude models, initialize the anthropic plugin inside `configureGenkit` and pass the configuration options. If no API key is provided in the options, the environment variable `ANTHROPIC_API_KEY` must be set. If you want to cache the system prompt, set `cacheSystemPrompt` to `true`. **Note:** Prompt caching is in beta and may change. To learn more, see https://docs.anthropic.com/en/docs/prompt-caching.
+ * To use the Claude models, initialize the anthropic plugin inside `configureGenkit` and pass the configuration options. If no API key is provided in the options, the environment variable `ANTHROPIC_API_KEY` must be set. If you want to cache the system prompt, set `cacheSystemPrompt` to `true`. Finer cache breakpoints are set with `cache_control` in the metadata of messages and parts. To learn more, see https://docs.anthropic.com/en/docs/prompt-caching.
  *
  * Example:
  * ```
@@ -112,11 +114,7 @@ export const anthropic = (options?: PluginOptions) => {
       'Please pass in the API key or set the ANTHROPIC_API_KEY environment variable'
     );
   }
-  let defaultHeaders = {};
-  if (options?.cacheSystemPrompt == true) {
-    defaultHeaders['anthropic-beta'] = 'prompt-caching-2024-07-31';
-  }
-  const client = new Anthropic({ apiKey, defaultHeaders });
+  const client = new Anthropic({ apiKey });
 
   let listActionsCache: ActionMetadata[] | null = null;
 
@@ -0,0 +1,213 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import { genkit } from 'genkit';
+
+import { azureADTokenProvider, type ClientSecretAuth } from './auth';
+import { azureOpenAI } from './index';
+
+const clientSecret: ClientSecretAuth = {
+  type: 'clientSecret',
+  tenantId: 'tenant',
+  clientId: 'client',
+  clientSecret: 'secret',
+};
+
+const MINUTE = 60 * 1000;
+
+describe('azureADTokenProvider', () => {
+  let fetchMock: jest.Mock<typeof fetch>;
+  let now: number;
+  const env = process.env;
+  const originalFetch = global.fetch;
+
+  function tokenResponse(token: string, expiresIn = 3600) {
+    return new Response(
+      JSON.stringify({ access_token: token, expires_in: expiresIn })
+    );
+  }
+
+  beforeEach(() => {
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock;
+    process.env = { ...env };
+    delete process.env.IDENTITY_ENDPOINT;
+    delete process.env.IDENTITY_HEADER;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    global.fetch = originalFetch;
+    process.env = env;
+  });
+
+  it('should request tokens with a client secret', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse('token'));
+    expect(await azureADTokenProvider(clientSecret)()).toBe('token');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'https://login.microsoftonline.com/tenant/oauth2/v2.0/token'
+    );
+    expect(
+      Object.fromEntries(new URLSearchParams(init!.body as string))
+    ).toStrictEqual({
+      grant_type: 'client_credentials',
+      client_id: 'client',
+      client_secret: 'secret',
+      scope: 'https://cognitiveservices.azure.com/.default',
+    });
+    expect(init!.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should cache tokens until five minutes before they expire', async () => {
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse('first', 600))
+      .mockResolvedValueOnce(tokenResponse('second', 600));
+    const getToken = azureADTokenProvider(clientSecret);
+    expect(await getToken()).toBe('first');
+    now += 4 * MINUTE;
+    expect(await getToken()).toBe('first');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    now += 2 * MINUTE;
+    expect(await getToken()).toBe('second');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share a pending request between callers', async () => {
+    let respond: (response: Response) => void = () => {};
+    fetchMock.mockReturnValueOnce(
+      new Promise((resolve) => {
+        respond = resolve;
+      })
+    );
+    const getToken = azureADTokenProvider(clientSecret);
+    const tokens = Promise.all([getToken(), getToken(), getToken()]);
+    respond(tokenResponse('token'));
+    expect(await tokens).toStrictEqual(['token', 'token', 'token']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request a new token after a failed request', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            error: 'invalid_client',
+            error_description: 'Invalid client secret.',
+          }),
+          { status: 401 }
+        )
+      )
+      .mockResolvedValueOnce(tokenResponse('token'));
+    const getToken = azureADTokenProvider(clientSecret);
+    await expect(getToken()).rejects.toThrow(
+      'Failed to get an Azure AD token with the client secret: Invalid client secret.'
+    );
+    expect(await getToken()).toBe('token');
+  });
+
+  it('should report requests that time out', async () => {
+    fetchMock.mockRejectedValueOnce(
+      new DOMException('The operation timed out.', 'TimeoutError')
+    );
+    await expect(
+      azureADTokenProvider({ type: 'managedIdentity' })()
+    ).rejects.toThrow(
+      'Failed to get an Azure AD token with the managed identity: no response within 10 seconds'
+    );
+  });
+
+  it('should use the identity endpoint of App Service when set', async () => {
+    process.env.IDENTITY_ENDPOINT = 'http://localhost:42356/msi/token';
+    process.env.IDENTITY_HEADER = 'header';
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({
+          access_token: 'token',
+          expires_on: String(Math.floor(now / 1000) + 3600),
+        })
+      )
+    );
+    expect(
+      await azureADTokenProvider({ type: 'managedIdentity', clientId: 'id' })()
+    ).toBe('token');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'http://localhost:42356/msi/token?api-version=2019-08-01&resource=https%3A%2F%2Fcognitiveservices.azure.com&client_id=id'
+    );
+    expect(init!.headers).toStrictEqual({ 'X-IDENTITY-HEADER': 'header' });
+  });
+
+  it('should fall back to the instance metadata service', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse('token'));
+    expect(await azureADTokenProvider({ type: 'managedIdentity' })()).toBe(
+      'token'
+    );
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(
+      'http://169.254.169.254/metadata/identity/oauth2/token?api-version=2018-02-01&resource=https%3A%2F%2Fcognitiveservices.azure.com'
+    );
+    expect(init!.headers).toStrictEqual({ Metadata: 'true' });
+  });
+
+  it('should cache bare JWTs until their expiry', async () => {
+    const payload = Buffer.from(
+      JSON.stringify({ exp: Math.floor(now / 1000) + 3600 })
+    ).toString('base64url');
+    const jwt = `header.${payload}.signature`;
+    const callback = jest.fn(async (_scope: string) => jwt);
+    const getToken = azureADTokenProvider({
+      type: 'token',
+      getToken: callback,
+    });
+    expect(await getToken()).toBe(jwt);
+    expect(await getToken()).toBe(jwt);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith(
+      'https://cognitiveservices.azure.com/.default'
+    );
+  });
+});
+
+describe('azureOpenAI auth', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('should reject an API key from the environment', async () => {
+    process.env = { ...env, AZURE_OPENAI_API_KEY: 'key' };
+    const plugin = azureOpenAI({
+      auth: clientSecret,
+      endpoint: 'https://example.openai.azure.com',
+      apiVersion: 'v1',
+    })(genkit({}));
+    await expect(plugin.initializer()).rejects.toThrow(
+      '`auth` cannot be combined with `apiKey`, `AZURE_OPENAI_API_KEY` or `azureADTokenProvider`'
+    );
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { readFile } from 'node:fs/promises';
+
+/** The scope of Azure OpenAI tokens. */
+export const COGNITIVE_SERVICES_SCOPE =
+  'https://cognitiveservices.azure.com/.default';
+
+/** Tokens are refreshed this long before they expire. */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Token requests are abandoned after this long, as the instance metadata
+ * service does not answer off Azure.
+ */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const DEFAULT_AUTHORITY_HOST = 'https://login.microsoftonline.com';
+
+/** A token along with the time it expires, in milliseconds since the epoch. */
+export interface AccessToken {
+  token: string;
+  expiresOnTimestamp: number;
+}
+
+/** Authenticates with a client secret of an app registration. */
+export interface ClientSecretAuth {
+  type: 'clientSecret';
+  tenantId: string;
+  clientId: string;
+  clientSecret: string;
+  /** Defaults to `https://login.microsoftonline.com`. */
+  authorityHost?: string;
+}
+
+/**
+ * Authenticates with a federated token, as mounted into Kubernetes pods by
+ * Azure Workload Identity. Unset fields default to the `AZURE_TENANT_ID`,
+ * `AZURE_CLIENT_ID`, `AZURE_FEDERATED_TOKEN_FILE` and `AZURE_AUTHORITY_HOST`
+ * environment variables the webhook injects.
+ */
+export interface WorkloadIdentityAuth {
+  type: 'workloadIdentity';
+  tenantId?: string;
+  clientId?: string;
+  tokenFilePath?: string;
+  authorityHost?: string;
+}
+
+/**
+ * Authenticates with the managed identity of the Azure host: App Service and
+ * Functions through `IDENTITY_ENDPOINT`, and VMs, AKS nodes and container
+ * instances through the instance metadata service.
+ */
+export interface ManagedIdentityAuth {
+  type: 'managedIdentity';
+  /** The client ID of a user-assigned identity. Defaults to the system one. */
+  clientId?: string;
+}
+
+/**
+ * Authenticates with tokens from a callback, e.g. a `TokenCredential` of
+ * `@azure/identity`: `(scope) => credential.getToken(scope)`. A callback
+ * returning a bare token is called again once the token's `exp` claim is
+ * near, or for every request when the token is not a JWT.
+ */
+export interface TokenCallbackAuth {
+  type: 'token';
+  getToken: (scope: string) => Promise<string | AccessToken | null>;
+}
+
+export type AzureAuthOptions =
+  | ClientSecretAuth
+  | WorkloadIdentityAuth
+  | ManagedIdentityAuth
+  | TokenCallbackAuth;
+
+/** The response of the Entra ID token endpoint or of a managed identity. */
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number | string;
+  expires_on?: number | string;
+  error?: string;
+  error_description?: string;
+}
+
+function fromTokenResponse(response: TokenResponse): AccessToken {
+  // Managed identities report `expires_on` in seconds since the epoch
+  const expiresOnTimestamp = response.expires_on
+    ? Number(response.expires_on) * 1000
+    : Date.now() + Number(response.expires_in ?? 0) * 1000;
+  return { token: response.access_token, expiresOnTimestamp };
+}
+
+async function fetchToken(
+  url: string,
+  init: RequestInit,
+  description: string
+): Promise<AccessToken> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (e) {
+    throw new Error(
+      `Failed to get an Azure AD token with ${description}: ${
+        (e as Error).name === 'TimeoutError'
+          ? `no response within ${REQUEST_TIMEOUT_MS / 1000} seconds`
+          : (e as Error).message
+      }`
+    );
+  }
+  const body = (await response.json().catch(() => ({}))) as TokenResponse;
+  if (!response.ok || !body.access_token) {
+    throw new Error(
+      `Failed to get an Azure AD token with ${description}: ${
+        body.error_description ?? body.error ?? response.statusText
+      }`
+    );
+  }
+  return fromTokenResponse(body);
+}
+
+function requestClientToken(
+  authorityHost: string,
+  tenantId: string,
+  params: Record<string, string>,
+  description: string
+): Promise<AccessToken> {
+  return fetchToken(
+    `${authorityHost.replace(/\/$/, '')}/${tenantId}/oauth2/v2.0/token`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        ...params,
+      }).toString(),
+    },
+    description
+  );
+}
+
+function requestManagedIdentityToken(
+  scope: string,
+  clientId?: string
+): Promise<AccessToken> {
+  const resource = scope.replace(/\/\.default$/, '');
+  const identityEndpoint = process.env.IDENTITY_ENDPOINT;
+  const identityHeader = process.env.IDENTITY_HEADER;
+  if (identityEndpoint && identityHeader) {
+    const params = new URLSearchParams({
+      'api-version': '2019-08-01',
+      resource,
+      ...(clientId && { client_id: clientId }),
+    });
+    return fetchToken(
+      `${identityEndpoint}?${params}`,
+      { headers: { 'X-IDENTITY-HEADER': identityHeader } },
+      'the managed identity'
+    );
+  }
+  const params = new URLSearchParams({
+    'api-version': '2018-02-01',
+    resource,
+    ...(clientId && { client_id: clientId }),
+  });
+  return fetchToken(
+    `http://169.254.169.254/metadata/identity/oauth2/token?${params}`,
+    { headers: { Metadata: 'true' } },
+    'the managed identity'
+  );
+}
+
+/**
+ * Reads the expiry of a JWT, to cache tokens returned without one.
+ * @returns The expiry in milliseconds since the epoch, or undefined.
+ */
+function jwtExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) return undefined;
+  try {
+    const { exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return typeof exp === 'number' ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Requests a new token with the given options.
+ * @param auth How to authenticate.
+ * @param scope The scope of the token.
+ * @returns The token, with the time it expires.
+ */
+async function requestToken(
+  auth: AzureAuthOptions,
+  scope: string
+): Promise<AccessToken> {
+  switch (auth.type) {
+    case 'clientSecret':
+      return requestClientToken(
+        auth.authorityHost ?? DEFAULT_AUTHORITY_HOST,
+        auth.tenantId,
+        {
+          client_id: auth.clientId,
+          client_secret: auth.clientSecret,
+          scope,
+        },
+        'the client secret'
+      );
+    case 'workloadIdentity': {
+      const tenantId = auth.tenantId ?? process.env.AZURE_TENANT_ID;
+      const clientId = auth.clientId ?? process.env.AZURE_CLIENT_ID;
+      const tokenFilePath =
+        auth.tokenFilePath ?? process.env.AZURE_FEDERATED_TOKEN_FILE;
+      if (!tenantId || !clientId || !tokenFilePath) {
+        throw new Error(
+          'Workload identity requires a tenant ID, a client ID and a federated token file'
+        );
+      }
+      // The federated token is rotated on disk, so it is read every time
+      const assertion = (await readFile(tokenFilePath, 'utf8')).trim();
+      return requestClientToken(
+        auth.authorityHost ??
+          process.env.AZURE_AUTHORITY_HOST ??
+          DEFAULT_AUTHORITY_HOST,
+        tenantId,
+        {
+          client_id: clientId,
+          client_assertion_type:
+            'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+          client_assertion: assertion,
+          scope,
+        },
+        'the workload identity'
+      );
+    }
+    case 'managedIdentity':
+      return requestManagedIdentityToken(scope, auth.clientId);
+    case 'token': {
+      const token = await auth.getToken(scope);
+      if (!token) throw new Error('The token callback returned no token');
+      if (typeof token !== 'string') return token;
+      return { token, expiresOnTimestamp: jwtExpiry(token) ?? 0 };
+    }
+  }
+}
+
+/**
+ * Creates an Azure AD token provider for the Azure OpenAI client. Tokens are
+ * cached and refreshed five minutes before they expire; concurrent requests
+ * share a single refresh.
+ * @param auth How to authenticate.
+ * @param scope The scope of the tokens. Defaults to Azure Cognitive Services.
+ * @returns The token provider, to pass as `azureADTokenProvider`.
+ */
+export function azureADTokenProvider(
+  auth: AzureAuthOptions,
+  scope = COGNITIVE_SERVICES_SCOPE
+): () => Promise<string> {
+  let cached: AccessToken | undefined;
+  let pending: Promise<AccessToken> | undefined;
+  return async () => {
+    if (cached && cached.expiresOnTimestamp - REFRESH_MARGIN_MS > Date.now()) {
+      return cached.token;
+    }
+    pending ??= requestToken(auth, scope).finally(() => {
+      pending = undefined;
+    });
+    cached = await pending;
+    return cached.token;
+  };
+}
@@ -0,0 +1,362 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { genkit, GenerationBlockedError } from 'genkit';
+import { APIError } from 'openai';
+
+import {
+  fromAzureContentFilterError,
+  fromAzureContentFilterResults,
+  fromAzurePromptFilterResults,
+} from './contentfilter';
+import { azureOpenAI } from './index';
+
+const safe = {
+  hate: { filtered: false, severity: 'safe' },
+  violence: { filtered: false, severity: 'low' },
+};
+
+const violent = {
+  hate: { filtered: false, severity: 'safe' },
+  violence: { filtered: true, severity: 'high' },
+};
+
+const promptFilterResults = [
+  {
+    prompt_index: 0,
+    content_filter_results: {
+      ...safe,
+      jailbreak: { filtered: false, detected: false },
+    },
+  },
+];
+
+describe('fromAzureContentFilterResults', () => {
+  it('should keep the highest severity of each category', () => {
+    expect(fromAzureContentFilterResults([safe, violent, safe])).toStrictEqual({
+      filtered: true,
+      filteredCategories: ['violence'],
+      categories: {
+        hate: { filtered: false, severity: 'safe' },
+        violence: { filtered: true, severity: 'high' },
+      },
+    });
+  });
+
+  it('should merge detections, blocklists and citations', () => {
+    expect(
+      fromAzureContentFilterResults([
+        {
+          jailbreak: { filtered: false, detected: false },
+          custom_blocklists: {
+            filtered: true,
+            details: [
+              { filtered: true, id: 'words' },
+              { filtered: false, id: 'names' },
+            ],
+          },
+        },
+        {
+          jailbreak: { filtered: true, detected: true },
+          custom_blocklists: {
+            filtered: false,
+            details: [{ filtered: true, id: 'words' }],
+          },
+          protected_material_code: {
+            filtered: false,
+            detected: true,
+            citation: { URL: 'https://example.com/code', license: 'MIT' },
+          },
+        },
+      ])
+    ).toStrictEqual({
+      filtered: true,
+      filteredCategories: ['jailbreak', 'custom_blocklists'],
+      categories: {
+        jailbreak: { filtered: true, detected: true },
+        custom_blocklists: { filtered: true, blocklists: ['words'] },
+        protected_material_code: {
+          filtered: false,
+          detected: true,
+          citation: { url: 'https://example.com/code', license: 'MIT' },
+        },
+      },
+    });
+  });
+
+  it('should report errors of the content filter', () => {
+    const error = { code: 'Timeout', message: 'The filter timed out.' };
+    expect(fromAzureContentFilterResults([{ error }])).toStrictEqual({
+      filtered: false,
+      filteredCategories: [],
+      categories: {},
+      error,
+    });
+  });
+
+  it('should return undefined without annotations', () => {
+    expect(fromAzureContentFilterResults([undefined])).toBeUndefined();
+    expect(fromAzurePromptFilterResults()).toBeUndefined();
+  });
+});
+
+describe('fromAzurePromptFilterResults', () => {
+  it('should merge the annotations of every prompt', () => {
+    expect(
+      fromAzurePromptFilterResults([
+        ...promptFilterResults,
+        { prompt_index: 1, content_filter_results: violent },
+      ])
+    ).toStrictEqual({
+      filtered: true,
+      filteredCategories: ['violence'],
+      categories: {
+        hate: { filtered: false, severity: 'safe' },
+        violence: { filtered: true, severity: 'high' },
+        jailbreak: { filtered: false, detected: false },
+      },
+    });
+  });
+});
+
+describe('fromAzureContentFilterError', () => {
+  it('should read the annotations of content filter rejections', () => {
+    const error = APIError.generate(
+      400,
+      {
+        error: {
+          code: 'content_filter',
+          message: 'The prompt was filtered.',
+          innererror: {
+            code: 'ResponsibleAIPolicyViolation',
+            content_filter_result: violent,
+          },
+        },
+      },
+      undefined,
+      {}
+    );
+    expect(fromAzureContentFilterError(error)).toStrictEqual({
+      filtered: true,
+      filteredCategories: ['violence'],
+      categories: {
+        hate: { filtered: false, severity: 'safe' },
+        violence: { filtered: true, severity: 'high' },
+      },
+    });
+  });
+
+  it('should report rejections without annotations as filtered', () => {
+    const error = APIError.generate(
+      400,
+      { error: { code: 'content_filter', message: 'Filtered.' } },
+      undefined,
+      {}
+    );
+    expect(fromAzureContentFilterError(error)).toStrictEqual({
+      filtered: true,
+      filteredCategories: [],
+      categories: {},
+    });
+  });
+
+  it('should ignore other errors', () => {
+    const error = APIError.generate(
+      400,
+      { error: { code: 'invalid_request', message: 'Invalid.' } },
+      undefined,
+      {}
+    );
+    expect(fromAzureContentFilterError(error)).toBeUndefined();
+    expect(fromAzureContentFilterError(new Error('boom'))).toBeUndefined();
+  });
+});
+
+describe('content filtering', () => {
+  let server: Server;
+  let endpoint: string;
+
+  function chunk(choice: object, extra: object = {}) {
+    return {
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'gpt-4o',
+      choices: [{ index: 0, finish_reason: null, ...choice }],
+      ...extra,
+    };
+  }
+
+  beforeAll(async () => {
+    // Stand-in for an Azure OpenAI resource with the content filter enabled
+    server = createServer(async (req, res) => {
+      let raw = '';
+      for await (const data of req) raw += data;
+      const body = JSON.parse(raw);
+      if (JSON.stringify(body.messages).includes('blocked')) {
+        res.writeHead(400, { 'content-type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            error: {
+              code: 'content_filter',
+              message: 'The prompt was filtered.',
+              innererror: {
+                code: 'ResponsibleAIPolicyViolation',
+                content_filter_result: violent,
+              },
+            },
+          })
+        );
+        return;
+      }
+      if (body.stream) {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        for (const event of [
+          {
+            ...chunk({}),
+            choices: [],
+            prompt_filter_results: promptFilterResults,
+          },
+          chunk({ delta: { role: 'assistant', content: '' } }),
+          chunk({ delta: { content: 'Hello' } }),
+          chunk({ delta: {}, finish_reason: 'stop' }),
+          // The asynchronous filter annotates the content after the fact
+          chunk({
+            content_filter_results: safe,
+            content_filter_offsets: { start_offset: 0, end_offset: 5 },
+          }),
+          chunk({ content_filter_results: violent }),
+          {
+            ...chunk({}),
+            choices: [],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+          },
+        ]) {
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'gpt-4o',
+          prompt_filter_results: promptFilterResults,
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hello' },
+              finish_reason: 'stop',
+              content_filter_results: safe,
+            },
+          ],
+          usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function ai() {
+    return genkit({
+      plugins: [azureOpenAI({ apiKey: 'key', endpoint, apiVersion: 'v1' })],
+    });
+  }
+
+  const promptFilter = {
+    filtered: false,
+    filteredCategories: [],
+    categories: {
+      hate: { filtered: false, severity: 'safe' },
+      violence: { filtered: false, severity: 'low' },
+      jailbreak: { filtered: false, detected: false },
+    },
+  };
+
+  it('should return the annotations of the prompt and completion', async () => {
+    const response = await ai().generate({
+      model: 'azure-openai/gpt-4o',
+      prompt: 'Hi',
+    });
+    expect(response.text).toBe('Hello');
+    expect(response.custom).toMatchObject({
+      contentFilter: {
+        filtered: false,
+        filteredCategories: [],
+        categories: safe,
+      },
+      promptFilter,
+    });
+  });
+
+  it('should merge the annotations of streamed chunks', async () => {
+    const { stream, response } = ai().generateStream({
+      model: 'azure-openai/gpt-4o',
+      prompt: 'Hi',
+    });
+    const chunks: any[] = [];
+    for await (const c of stream) chunks.push(c.toJSON());
+    // Chunks carrying annotations only have no content
+    expect(chunks.map((c) => c.content)).toStrictEqual([
+      [{ text: 'Hello' }],
+      [],
+      [],
+    ]);
+    expect(chunks[2].custom.contentFilter.filteredCategories).toStrictEqual([
+      'violence',
+    ]);
+    const { text, usage, custom } = await response;
+    expect(text).toBe('Hello');
+    expect(usage.totalTokens).toBe(4);
+    expect(custom).toMatchObject({
+      contentFilter: {
+        filtered: true,
+        filteredCategories: ['violence'],
+        categories: violent,
+      },
+      promptFilter,
+    });
+  });
+
+  it('should return filtered prompts as blocked', async () => {
+    expect.assertions(3);
+    try {
+      await ai().generate({ model: 'azure-openai/gpt-4o', prompt: 'blocked' });
+    } catch (e) {
+      expect(e).toBeInstanceOf(GenerationBlockedError);
+      const { response } = (e as GenerationBlockedError).detail;
+      expect(response.finishReason).toBe('blocked');
+      expect(response.custom).toStrictEqual({
+        promptFilter: {
+          filtered: true,
+          filteredCategories: ['violence'],
+          categories: violent,
+        },
+      });
+    }
+  });
+});
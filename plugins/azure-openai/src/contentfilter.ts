@@ -0,0 +1,175 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { APIError } from 'openai';
+
+export type ContentFilterSeverity = 'safe' | 'low' | 'medium' | 'high';
+
+const SEVERITIES: ContentFilterSeverity[] = ['safe', 'low', 'medium', 'high'];
+
+/** The outcome of one content filter category. */
+export interface ContentFilterCategory {
+  /** Whether the category caused the content to be filtered. */
+  filtered: boolean;
+  /** The severity, for the harm categories (hate, sexual, violence, ...). */
+  severity?: ContentFilterSeverity;
+  /** Whether the content was detected, for jailbreak, profanity, ... */
+  detected?: boolean;
+  /** The IDs of the matching blocklists, for `custom_blocklists`. */
+  blocklists?: string[];
+  /** The source of protected code, for `protected_material_code`. */
+  citation?: { url?: string; license?: string };
+}
+
+/**
+ * The content filter annotations of a prompt or of a completion, e.g.
+ * `{ filtered: true, filteredCategories: ['violence'], categories: {...} }`.
+ */
+export interface ContentFilterReport {
+  /** Whether any category caused the content to be filtered. */
+  filtered: boolean;
+  /** The categories that caused the content to be filtered. */
+  filteredCategories: string[];
+  /** The outcome of every category that was checked, by category name. */
+  categories: Record<string, ContentFilterCategory>;
+  /** Set when the content filter could not check the content. */
+  error?: { code: string; message: string };
+}
+
+/** A category of the `content_filter_results` annotations of Azure. */
+interface AzureContentFilterCategory {
+  filtered?: boolean;
+  severity?: ContentFilterSeverity;
+  detected?: boolean;
+  details?: { filtered: boolean; id: string }[];
+  citation?: { URL?: string; license?: string };
+}
+
+/** The `content_filter_results` annotations of Azure. */
+export type AzureContentFilterResults = Record<string, unknown> & {
+  error?: { code: string; message: string };
+};
+
+/** The `prompt_filter_results` annotations of Azure. */
+export interface AzurePromptFilterResult {
+  prompt_index: number;
+  content_filter_results?: AzureContentFilterResults;
+}
+
+function mergeCategory(
+  current: ContentFilterCategory | undefined,
+  result: AzureContentFilterCategory
+): ContentFilterCategory {
+  const category: ContentFilterCategory = {
+    filtered: Boolean(current?.filtered || result.filtered),
+  };
+  const severities = [current?.severity, result.severity].filter(
+    (severity): severity is ContentFilterSeverity => !!severity
+  );
+  if (severities.length) {
+    category.severity = severities.reduce((a, b) =>
+      SEVERITIES.indexOf(a) >= SEVERITIES.indexOf(b) ? a : b
+    );
+  }
+  if (current?.detected !== undefined || result.detected !== undefined) {
+    category.detected = Boolean(current?.detected || result.detected);
+  }
+  const blocklists = [
+    ...(current?.blocklists ?? []),
+    ...(result.details ?? [])
+      .filter((detail) => detail.filtered)
+      .map((detail) => detail.id),
+  ];
+  if (blocklists.length) category.blocklists = [...new Set(blocklists)];
+  const citation = result.citation
+    ? { url: result.citation.URL, license: result.citation.license }
+    : current?.citation;
+  if (citation) category.citation = citation;
+  return category;
+}
+
+/**
+ * Converts content filter annotations to a report. Streamed completions are
+ * annotated chunk by chunk; their annotations are merged, keeping the highest
+ * severity of each category.
+ * @param annotations The `content_filter_results` of the content.
+ * @returns The report, or undefined when there are no annotations.
+ */
+export function fromAzureContentFilterResults(
+  annotations: (AzureContentFilterResults | undefined)[]
+): ContentFilterReport | undefined {
+  let report: ContentFilterReport | undefined;
+  for (const annotation of annotations) {
+    if (!annotation) continue;
+    report ??= { filtered: false, filteredCategories: [], categories: {} };
+    for (const [name, value] of Object.entries(annotation)) {
+      if (name === 'error') {
+        report.error = annotation.error;
+        continue;
+      }
+      report.categories[name] = mergeCategory(
+        report.categories[name],
+        value as AzureContentFilterCategory
+      );
+    }
+  }
+  if (!report) return undefined;
+  report.filteredCategories = Object.keys(report.categories).filter(
+    (name) => report!.categories[name].filtered
+  );
+  report.filtered = report.filteredCategories.length > 0;
+  return report;
+}
+
+/**
+ * Converts the prompt filter annotations of a response to a report.
+ * @param results The `prompt_filter_results` of the response.
+ * @returns The report, or undefined when there are no annotations.
+ */
+export function fromAzurePromptFilterResults(
+  results?: AzurePromptFilterResult[]
+): ContentFilterReport | undefined {
+  return fromAzureContentFilterResults(
+    (results ?? []).map((result) => result.content_filter_results)
+  );
+}
+
+/**
+ * Reads the prompt filter annotations of a request that Azure rejected
+ * because its prompt was filtered.
+ * @param error The error thrown by the client.
+ * @returns The report, or undefined when the error is not a content filter
+ * rejection.
+ */
+export function fromAzureContentFilterError(
+  error: unknown
+): ContentFilterReport | undefined {
+  if (!(error instanceof APIError) || error.code !== 'content_filter') {
+    return undefined;
+  }
+  const annotation = (
+    error.error as {
+      innererror?: { content_filter_result?: AzureContentFilterResults };
+    }
+  )?.innererror?.content_filter_result;
+  return (
+    fromAzureContentFilterResults([annotation]) ?? {
+      filtered: true,
+      filteredCategories: [],
+      categories: {},
+    }
+  );
+}
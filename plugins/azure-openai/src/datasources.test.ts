@@ -0,0 +1,274 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from '@jest/globals';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { genkit } from 'genkit';
+
+import {
+  type DataSource,
+  fromAzureMessageContext,
+  toAzureDataSources,
+} from './datasources';
+import { azureOpenAI } from './index';
+
+const searchDataSource: DataSource = {
+  type: 'azure_search',
+  parameters: {
+    endpoint: 'https://search.example.com',
+    indexName: 'docs',
+    authentication: { type: 'api_key', key: 'search-key' },
+    queryType: 'vector_semantic_hybrid',
+    inScope: true,
+    topNDocuments: 5,
+    fieldsMapping: { titleField: 'title', contentFields: ['body'] },
+    embeddingDependency: {
+      type: 'deployment_name',
+      deploymentName: 'text-embedding-3-small',
+    },
+  },
+};
+
+const cosmosDataSource: DataSource = {
+  type: 'azure_cosmos_db',
+  parameters: {
+    databaseName: 'db',
+    containerName: 'items',
+    indexName: 'vector-index',
+    authentication: {
+      type: 'connection_string',
+      connectionString: 'mongodb://example',
+    },
+    embeddingDependency: {
+      type: 'deployment_name',
+      deploymentName: 'ada',
+    },
+    fieldsMapping: { contentFields: ['text'], vectorFields: ['vector'] },
+  },
+};
+
+/** The context the "On Your Data" extension adds to answers. */
+const context = {
+  citations: [
+    {
+      content: 'Dogs bark.',
+      title: 'Dogs',
+      url: 'https://example.com/dogs',
+      filepath: 'dogs.md',
+      chunk_id: '0',
+      rerank_score: 2.5,
+    },
+    { content: 'Cats meow.', title: null, url: null },
+  ],
+  intent: '["What do dogs do?", "dog behavior"]',
+};
+
+const expectedGrounding = {
+  citations: [
+    {
+      content: [{ text: 'Dogs bark.' }],
+      metadata: {
+        ref: 'doc1',
+        title: 'Dogs',
+        url: 'https://example.com/dogs',
+        filepath: 'dogs.md',
+        chunkId: '0',
+        rerankScore: 2.5,
+      },
+    },
+    { content: [{ text: 'Cats meow.' }], metadata: { ref: 'doc2' } },
+  ],
+  intent: ['What do dogs do?', 'dog behavior'],
+};
+
+function chunk(delta: object | undefined, finishReason: string | null = null) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+describe('toAzureDataSources', () => {
+  it('should convert Azure AI Search data sources to snake case', () => {
+    expect(toAzureDataSources([searchDataSource])).toStrictEqual([
+      {
+        type: 'azure_search',
+        parameters: {
+          endpoint: 'https://search.example.com',
+          index_name: 'docs',
+          authentication: { type: 'api_key', key: 'search-key' },
+          query_type: 'vector_semantic_hybrid',
+          in_scope: true,
+          top_n_documents: 5,
+          fields_mapping: { title_field: 'title', content_fields: ['body'] },
+          embedding_dependency: {
+            type: 'deployment_name',
+            deployment_name: 'text-embedding-3-small',
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should convert Azure Cosmos DB data sources to snake case', () => {
+    expect(toAzureDataSources([cosmosDataSource])).toStrictEqual([
+      {
+        type: 'azure_cosmos_db',
+        parameters: {
+          database_name: 'db',
+          container_name: 'items',
+          index_name: 'vector-index',
+          authentication: {
+            type: 'connection_string',
+            connection_string: 'mongodb://example',
+          },
+          embedding_dependency: {
+            type: 'deployment_name',
+            deployment_name: 'ada',
+          },
+          fields_mapping: {
+            content_fields: ['text'],
+            vector_fields: ['vector'],
+          },
+        },
+      },
+    ]);
+  });
+});
+
+describe('fromAzureMessageContext', () => {
+  it('should convert citations and intent', () => {
+    expect(fromAzureMessageContext(context)).toStrictEqual(expectedGrounding);
+  });
+
+  it('should keep an intent that is not JSON as is', () => {
+    expect(fromAzureMessageContext({ intent: 'dogs' })).toStrictEqual({
+      intent: ['dogs'],
+    });
+  });
+
+  it('should return an empty grounding without context', () => {
+    expect(fromAzureMessageContext()).toStrictEqual({});
+  });
+});
+
+describe('On Your Data', () => {
+  let server: Server;
+  let endpoint: string;
+  let requests: { url?: string; body: any }[] = [];
+
+  beforeAll(async () => {
+    // Stand-in for an Azure OpenAI resource with the extension enabled
+    server = createServer(async (req, res) => {
+      let raw = '';
+      for await (const data of req) raw += data;
+      const body = JSON.parse(raw);
+      requests.push({ url: req.url, body });
+      if (body.stream) {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        for (const event of [
+          chunk({ role: 'assistant', context }),
+          chunk({ content: 'Dogs bark [doc1].' }),
+          chunk({}, 'stop'),
+        ]) {
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'gpt-4o',
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: 'assistant',
+                content: 'Dogs bark [doc1].',
+                context,
+              },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  function ai() {
+    return genkit({
+      plugins: [azureOpenAI({ apiKey: 'key', endpoint, apiVersion: 'v1' })],
+    });
+  }
+
+  it('should send data sources and return the grounding', async () => {
+    const response = await ai().generate({
+      model: 'azure-openai/gpt-4o',
+      prompt: 'What do dogs do?',
+      config: { dataSources: [searchDataSource, cosmosDataSource] },
+    });
+    expect(requests[0].url).toBe(
+      '/openai/deployments/gpt-4o/chat/completions?api-version=v1'
+    );
+    expect(requests[0].body.data_sources).toStrictEqual(
+      toAzureDataSources([searchDataSource, cosmosDataSource])
+    );
+    expect(response.text).toBe('Dogs bark [doc1].');
+    expect(response.custom).toMatchObject(expectedGrounding);
+  });
+
+  it('should return the grounding of streamed answers', async () => {
+    const { stream, response } = ai().generateStream({
+      model: 'azure-openai/gpt-4o',
+      prompt: 'What do dogs do?',
+      config: { dataSources: [searchDataSource] },
+    });
+    const chunks: any[] = [];
+    for await (const c of stream) chunks.push(c.toJSON());
+    expect(requests[0].body.data_sources).toStrictEqual(
+      toAzureDataSources([searchDataSource])
+    );
+    expect(chunks[0].custom).toStrictEqual(expectedGrounding);
+    expect((await response).text).toBe('Dogs bark [doc1].');
+    expect((await response).custom).toMatchObject(expectedGrounding);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { z } from 'genkit';
+import type { DocumentData } from 'genkit';
+
+/** How the chat completions extension authenticates to a data source. */
+export const DataSourceAuthenticationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('api_key'), key: z.string() }),
+  z.object({
+    type: z.literal('connection_string'),
+    connectionString: z.string(),
+  }),
+  z.object({ type: z.literal('system_assigned_managed_identity') }),
+  z.object({
+    type: z.literal('user_assigned_managed_identity'),
+    managedIdentityResourceId: z.string(),
+  }),
+  z.object({ type: z.literal('access_token'), accessToken: z.string() }),
+]);
+
+/** The embedding model used to vectorize the search query. */
+export const EmbeddingDependencySchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('deployment_name'),
+    deploymentName: z.string(),
+  }),
+  z.object({
+    type: z.literal('endpoint'),
+    endpoint: z.string(),
+    authentication: DataSourceAuthenticationSchema.optional(),
+  }),
+]);
+
+const CommonDataSourceParametersSchema = z.object({
+  /** Number of documents retrieved for the query. */
+  topNDocuments: z.number().int().optional(),
+  /** Only answer from the retrieved documents. Defaults to true. */
+  inScope: z.boolean().optional(),
+  /** How strictly documents are filtered by relevance, from 1 to 5. */
+  strictness: z.number().int().min(1).max(5).optional(),
+  /** Maximum number of search queries sent for one user message. */
+  maxSearchQueries: z.number().int().optional(),
+  allowPartialResult: z.boolean().optional(),
+  /** The context returned with the answer. Defaults to citations and intent. */
+  includeContexts: z
+    .array(z.enum(['citations', 'intent', 'all_retrieved_documents']))
+    .optional(),
+  embeddingDependency: EmbeddingDependencySchema.optional(),
+});
+
+export const AzureSearchDataSourceSchema = z.object({
+  type: z.literal('azure_search'),
+  parameters: CommonDataSourceParametersSchema.extend({
+    endpoint: z.string(),
+    indexName: z.string(),
+    authentication: DataSourceAuthenticationSchema,
+    queryType: z
+      .enum([
+        'simple',
+        'semantic',
+        'vector',
+        'vector_simple_hybrid',
+        'vector_semantic_hybrid',
+      ])
+      .optional(),
+    semanticConfiguration: z.string().optional(),
+    /** An OData filter applied to the search. */
+    filter: z.string().optional(),
+    fieldsMapping: z
+      .object({
+        titleField: z.string().optional(),
+        urlField: z.string().optional(),
+        filepathField: z.string().optional(),
+        contentFields: z.array(z.string()).optional(),
+        contentFieldsSeparator: z.string().optional(),
+        vectorFields: z.array(z.string()).optional(),
+        imageVectorFields: z.array(z.string()).optional(),
+      })
+      .optional(),
+  }),
+});
+
+export const AzureCosmosDbDataSourceSchema = z.object({
+  type: z.literal('azure_cosmos_db'),
+  parameters: CommonDataSourceParametersSchema.extend({
+    databaseName: z.string(),
+    containerName: z.string(),
+    indexName: z.string(),
+    authentication: DataSourceAuthenticationSchema,
+    embeddingDependency: EmbeddingDependencySchema,
+    fieldsMapping: z.object({
+      contentFields: z.array(z.string()),
+      vectorFields: z.array(z.string()),
+      titleField: z.string().optional(),
+      urlField: z.string().optional(),
+      filepathField: z.string().optional(),
+      contentFieldsSeparator: z.string().optional(),
+    }),
+  }),
+});
+
+/** A data source grounding the answers of the "On Your Data" extension. */
+export const DataSourceSchema = z.discriminatedUnion('type', [
+  AzureSearchDataSourceSchema,
+  AzureCosmosDbDataSourceSchema,
+]);
+
+export type DataSource = z.infer<typeof DataSourceSchema>;
+
+/** A citation of the context returned by the "On Your Data" extension. */
+interface AzureCitation {
+  content: string;
+  title?: string | null;
+  url?: string | null;
+  filepath?: string | null;
+  chunk_id?: string | null;
+  rerank_score?: number | null;
+}
+
+/** The context the extension adds to assistant messages. */
+export interface AzureMessageContext {
+  citations?: AzureCitation[];
+  /** The detected intent, as a JSON array of search queries. */
+  intent?: string;
+  all_retrieved_documents?: unknown[];
+}
+
+/** The grounding of an answer, as reported in the `custom` data. */
+export interface Grounding {
+  /**
+   * The cited documents. The answer refers to them as `[doc1]`, `[doc2]`, ...
+   * which is the `ref` in their metadata.
+   */
+  citations?: DocumentData[];
+  /** The search queries derived from the conversation. */
+  intent?: string[];
+}
+
+function toSnakeCase(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(toSnakeCase);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`),
+      toSnakeCase(v),
+    ])
+  );
+}
+
+/**
+ * Converts data sources to the `data_sources` of a chat completions request.
+ * @param dataSources The data sources of the request config.
+ * @returns The data sources with the API's snake case keys.
+ */
+export function toAzureDataSources(dataSources: DataSource[]) {
+  return toSnakeCase(dataSources) as Record<string, unknown>[];
+}
+
+function fromAzureIntent(intent: string): string[] {
+  try {
+    const parsed = JSON.parse(intent);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Not JSON, use the intent as is
+  }
+  return [intent];
+}
+
+/**
+ * Converts the context of an assistant message to the grounding reported in
+ * the `custom` data of a candidate.
+ * @param context The context added by the extension, if any.
+ * @returns The grounding, or an empty object when there is none.
+ */
+export function fromAzureMessageContext(
+  context?: AzureMessageContext
+): Grounding {
+  const grounding: Grounding = {};
+  if (context?.citations) {
+    grounding.citations = context.citations.map((citation, i) => {
+      const metadata: Record<string, unknown> = { ref: `doc${i + 1}` };
+      if (citation.title) metadata.title = citation.title;
+      if (citation.url) metadata.url = citation.url;
+      if (citation.filepath) metadata.filepath = citation.filepath;
+      if (citation.chunk_id) metadata.chunkId = citation.chunk_id;
+      if (citation.rerank_score != null) {
+        metadata.rerankScore = citation.rerank_score;
+      }
+      return { content: [{ text: citation.content }], metadata };
+    });
+  }
+  if (context?.intent) grounding.intent = fromAzureIntent(context.intent);
+  return grounding;
+}
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import type { Genkit } from 'genkit';
+import type { EmbedderReference, Genkit } from 'genkit';
 import { embedderRef, z } from 'genkit';
 import { AzureOpenAI } from 'openai';
 
@@ -71,14 +71,27 @@ export const SUPPORTED_EMBEDDING_MODELS = {
   'text-embedding-ada-002': textEmbeddingAda002,
 };
 
-export function openaiEmbedder(ai: Genkit, name: string, client: AzureOpenAI) {
-  const model = SUPPORTED_EMBEDDING_MODELS[name];
+/**
+ * Defines an embedder.
+ * @param ai The Genkit instance.
+ * @param name The name of the model, which is also the name of its deployment.
+ * @param client The Azure OpenAI client instance.
+ * @param declaredEmbedder The capabilities of a model that is not built in.
+ * @returns The defined embedder.
+ */
+export function openaiEmbedder(
+  ai: Genkit,
+  name: string,
+  client: AzureOpenAI,
+  declaredEmbedder?: EmbedderReference<z.ZodTypeAny>
+) {
+  const model = declaredEmbedder ?? SUPPORTED_EMBEDDING_MODELS[name];
   if (!model) throw new Error(`Unsupported model: ${name}`);
 
   return ai.defineEmbedder(
     {
       info: model.info!,
-      configSchema: TextEmbeddingConfigSchema,
+      configSchema: model.configSchema ?? TextEmbeddingConfigSchema,
       name: model.name,
     },
     async (input, options) => {
@@ -27,6 +27,7 @@ import type {
 import {
   CandidateData,
   GenerateResponseChunkData,
+  ModelReference,
   modelRef,
   ToolDefinition,
 } from 'genkit/model';
@@ -43,6 +44,20 @@ import {
   type CompletionChoice,
 } from 'openai/resources/index.mjs';
 
+import {
+  type AzureContentFilterResults,
+  type AzurePromptFilterResult,
+  fromAzureContentFilterError,
+  fromAzureContentFilterResults,
+  fromAzurePromptFilterResults,
+} from './contentfilter.js';
+import {
+  type AzureMessageContext,
+  DataSourceSchema,
+  fromAzureMessageContext,
+  toAzureDataSources,
+} from './datasources.js';
+
 type VisualDetailLevel = 'low' | 'auto' | 'high';
 
 const MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT = [
@@ -76,6 +91,11 @@ export const OpenAiConfigSchema = GenerationCommonConfigSchema.extend({
   topLogProbs: z.number().int().min(0).max(20).optional(),
   user: z.string().optional(),
   visualDetailLevel: z.enum(['auto', 'low', 'high']).optional(),
+  /**
+   * Grounds answers in Azure AI Search or Azure Cosmos DB with the "On Your
+   * Data" extension. The citations and intent are reported in `custom`.
+   */
+  dataSources: z.array(DataSourceSchema).optional(),
 });
 
 export const gpt4o = modelRef({
@@ -504,9 +524,30 @@ function fromOpenAiToolCall(
   }
 }
 
+/**
+ * Reads the content filter annotations of a choice.
+ * @param annotations The `content_filter_results` of the choice, or of every
+ * chunk of a streamed choice.
+ * @returns `{ contentFilter }` for the `custom` data, or an empty object.
+ */
+function toContentFilterCustom(
+  annotations: (AzureContentFilterResults | undefined)[]
+) {
+  const contentFilter = fromAzureContentFilterResults(annotations);
+  return contentFilter ? { contentFilter } : {};
+}
+
+function contentFilterResultsOf(
+  choice: ChatCompletion['choices'][0] | ChatCompletionChunk['choices'][0]
+) {
+  return (choice as { content_filter_results?: AzureContentFilterResults })
+    .content_filter_results;
+}
+
 function fromOpenAiChoice(
   choice: ChatCompletion['choices'][0],
-  jsonMode = false
+  jsonMode = false,
+  contentFilterAnnotations = [contentFilterResultsOf(choice)]
 ): CandidateData {
   const toolRequestParts = choice.message.tool_calls?.map((toolCall) =>
     fromOpenAiToolCall(toolCall, choice)
@@ -526,7 +567,12 @@ function fromOpenAiChoice(
               : { text: choice.message.content! },
           ],
     },
-    custom: {},
+    custom: {
+      ...fromAzureMessageContext(
+        (choice.message as { context?: AzureMessageContext }).context
+      ),
+      ...toContentFilterCustom(contentFilterAnnotations),
+    },
   };
 }
 
@@ -534,7 +580,9 @@ function fromOpenAiChunkChoice(
   choice: ChatCompletionChunk['choices'][0],
   jsonMode = false
 ): CandidateData {
-  const toolRequestParts = choice.delta.tool_calls?.map((toolCall) =>
+  // The asynchronous content filter sends chunks with annotations only
+  const delta: Partial<ChatCompletionChunk.Choice.Delta> = choice.delta ?? {};
+  const toolRequestParts = delta.tool_calls?.map((toolCall) =>
     fromOpenAiToolCall(toolCall, choice)
   );
   return {
@@ -548,19 +596,116 @@ function fromOpenAiChunkChoice(
         ? // Note: Not sure why I have to cast here exactly.
           // Otherwise it thinks toolRequest must be 'undefined' if provided
           (toolRequestParts as ToolRequestPart[])
-        : [
-            jsonMode
-              ? { data: JSON.parse(choice.delta.content!) }
-              : { text: choice.delta.content! },
-          ],
+        : delta.content
+          ? [
+              jsonMode
+                ? { data: JSON.parse(delta.content) }
+                : { text: delta.content },
+            ]
+          : [],
+    },
+    custom: {
+      ...fromAzureMessageContext(
+        (delta as { context?: AzureMessageContext }).context
+      ),
+      ...toContentFilterCustom([contentFilterResultsOf(choice)]),
     },
-    custom: {},
   };
 }
 
+type AzureChatCompletion = ChatCompletion & {
+  prompt_filter_results?: AzurePromptFilterResult[];
+};
+
+/**
+ * Assembles the completion of a streamed response. The stream helper of the
+ * SDK expects every chunk choice to have a `delta`, which the asynchronous
+ * content filter chunks of Azure don't, so chunks are accumulated here.
+ * @param chunks The chunks of the response, in order.
+ * @returns The completion, with the context added by the "On Your Data"
+ * extension and the prompt filter annotations.
+ */
+export function fromOpenAiChunks(
+  chunks: ChatCompletionChunk[]
+): AzureChatCompletion {
+  const completion: AzureChatCompletion = {
+    id: '',
+    object: 'chat.completion',
+    created: 0,
+    model: '',
+    choices: [],
+  };
+  const choices = new Map<number, ChatCompletion.Choice>();
+  const promptFilterResults: AzurePromptFilterResult[] = [];
+  for (const chunk of chunks) {
+    const {
+      choices: chunkChoices,
+      object,
+      usage,
+      prompt_filter_results,
+      ...rest
+    } = chunk as ChatCompletionChunk & {
+      prompt_filter_results?: AzurePromptFilterResult[];
+    };
+    Object.assign(completion, rest);
+    if (usage) completion.usage = usage;
+    promptFilterResults.push(...(prompt_filter_results ?? []));
+    for (const chunkChoice of chunkChoices ?? []) {
+      const choice = choices.get(chunkChoice.index) ?? {
+        index: chunkChoice.index,
+        finish_reason:
+          null as unknown as ChatCompletion.Choice['finish_reason'],
+        logprobs: null,
+        message: { role: 'assistant', content: null, refusal: null },
+      };
+      choices.set(chunkChoice.index, choice);
+      if (chunkChoice.finish_reason) {
+        choice.finish_reason = chunkChoice.finish_reason;
+      }
+      const delta = chunkChoice.delta;
+      if (!delta) continue;
+      if (delta.content) {
+        choice.message.content = (choice.message.content ?? '') + delta.content;
+      }
+      const { context } = delta as { context?: AzureMessageContext };
+      if (context) {
+        const message = choice.message as { context?: AzureMessageContext };
+        message.context = { ...message.context, ...context };
+      }
+      for (const toolCall of delta.tool_calls ?? []) {
+        const toolCalls = (choice.message.tool_calls ??= []);
+        const current = (toolCalls[toolCall.index] ??= {
+          id: '',
+          type: 'function',
+          function: { name: '', arguments: '' },
+        });
+        if (toolCall.id) current.id = toolCall.id;
+        if (toolCall.function?.name) {
+          current.function.name = toolCall.function.name;
+        }
+        current.function.arguments += toolCall.function?.arguments ?? '';
+      }
+    }
+  }
+  completion.choices = [...choices.values()].sort((a, b) => a.index - b.index);
+  if (promptFilterResults.length) {
+    completion.prompt_filter_results = promptFilterResults;
+  }
+  return completion;
+}
+
+/**
+ * Converts a Genkit request to a chat completions request body.
+ * @param modelName The name of the model, or of the deployment serving it.
+ * @param request The Genkit request to convert.
+ * @param declaredModel The reference of the model served by a deployment, if
+ * any. Its declared capabilities are used instead of the built-in tables.
+ * @returns The request body.
+ */
 export function toOpenAiRequestBody(
   modelName: string,
-  request: GenerateRequest
+  request: GenerateRequest,
+  declaredModel?: ModelReference<z.ZodTypeAny>
 ) {
   const mapToSnakeCase = <T extends Record<string, any>>(
     obj: T
@@ -574,7 +719,7 @@ export function toOpenAiRequestBody(
       return acc;
     }, {});
   };
-  const model = SUPPORTED_GPT_MODELS[modelName];
+  const model = declaredModel ?? SUPPORTED_GPT_MODELS[modelName];
   if (!model) throw new Error(`Unsupported model: ${modelName}`);
   const openAiMessages = toOpenAiMessages(
     request.messages,
@@ -590,24 +735,28 @@ export function toOpenAiRequestBody(
     top_p: request.config?.topP,
     n: request.candidates,
     stop: request.config?.stopSequences,
+    data_sources: request.config?.dataSources
+      ? toAzureDataSources(request.config.dataSources)
+      : undefined,
     ...mapToSnakeCase(request.config?.custom || {}),
   } as ChatCompletionCreateParamsNonStreaming;
 
   const response_format = request.output?.format;
   if (
     response_format &&
-    MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT.includes(mappedModelName)
+    (declaredModel ||
+      MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT.includes(mappedModelName))
   ) {
     if (
       response_format === 'json' &&
-      model.info.supports?.output?.includes('json')
+      model.info?.supports?.output?.includes('json')
     ) {
       body.response_format = {
         type: 'json_object',
       };
     } else if (
       response_format === 'text' &&
-      model.info.supports?.output?.includes('text')
+      model.info?.supports?.output?.includes('text')
     ) {
       body.response_format = {
         type: 'text',
@@ -626,56 +775,115 @@ export function toOpenAiRequestBody(
 }
 
 /**
- *
+ * Defines a GPT model served by an Azure OpenAI deployment.
+ * @param ai The Genkit instance.
+ * @param name The Genkit name of the model, registered as `azure-openai/<name>`.
+ * @param client The Azure OpenAI client of the resource hosting the deployment.
+ * @param declaredModel The reference of the model served by the deployment.
+ * Defaults to the built-in model named `name`.
+ * @param deployment The name of the deployment. Defaults to `name`.
+ * @returns The defined model.
  */
-export function gptModel(ai: Genkit, name: string, client: AzureOpenAI) {
+export function gptModel(
+  ai: Genkit,
+  name: string,
+  client: AzureOpenAI,
+  declaredModel?: ModelReference<z.ZodTypeAny>,
+  deployment = name
+) {
   const modelId = `azure-openai/${name}`;
-  const model = SUPPORTED_GPT_MODELS[name];
+  const model = declaredModel ?? SUPPORTED_GPT_MODELS[name];
   if (!model) throw new Error(`Unsupported model: ${name}`);
 
   return ai.defineModel(
     {
       name: modelId,
       ...model.info,
-      configSchema: SUPPORTED_GPT_MODELS[name].configSchema,
+      configSchema: model.configSchema,
     },
     async (
       request,
       streamingCallback?: StreamingCallback<GenerateResponseChunkData>
     ) => {
-      let response: ChatCompletion;
-      const body = toOpenAiRequestBody(name, request);
-      if (streamingCallback) {
-        const stream = client.beta.chat.completions.stream({
-          ...body,
-          stream: true,
-          stream_options: {
-            include_usage: true,
-          },
-        });
-        for await (const chunk of stream) {
-          chunk.choices?.forEach((chunk) => {
-            const c = fromOpenAiChunkChoice(chunk);
-            streamingCallback({
-              index: c.index,
-              content: c.message.content,
-            });
+      let response: AzureChatCompletion;
+      const body = toOpenAiRequestBody(deployment, request, declaredModel);
+      // Streamed choices are annotated chunk by chunk
+      const annotations = new Map<
+        number,
+        (AzureContentFilterResults | undefined)[]
+      >();
+      try {
+        if (streamingCallback) {
+          const stream = await client.chat.completions.create({
+            ...body,
+            stream: true,
+            stream_options: {
+              include_usage: true,
+            },
           });
+          const chunks: ChatCompletionChunk[] = [];
+          for await (const chunk of stream) {
+            chunks.push(chunk);
+            chunk.choices?.forEach((chunk) => {
+              annotations.set(chunk.index, [
+                ...(annotations.get(chunk.index) ?? []),
+                contentFilterResultsOf(chunk),
+              ]);
+              const c = fromOpenAiChunkChoice(chunk);
+              const hasCustom = Object.keys(c.custom as object).length > 0;
+              if (!c.message.content.length && !hasCustom) return;
+              streamingCallback({
+                index: c.index,
+                content: c.message.content,
+                ...(hasCustom && { custom: c.custom }),
+              });
+            });
+          }
+          response = fromOpenAiChunks(chunks);
+        } else {
+          response = await client.chat.completions.create(body);
         }
-        response = await stream.finalChatCompletion();
-      } else {
-        response = await client.chat.completions.create(body);
+      } catch (e) {
+        // Azure rejects requests whose prompt is filtered
+        const promptFilter = fromAzureContentFilterError(e);
+        if (!promptFilter) throw e;
+        return {
+          candidates: [
+            {
+              index: 0,
+              finishReason: 'blocked',
+              finishMessage: (e as Error).message,
+              message: { role: 'model', content: [] },
+            },
+          ],
+          custom: { promptFilter },
+        };
       }
+      const candidates = response.choices.map((c) =>
+        fromOpenAiChoice(
+          c,
+          request.output?.format === 'json',
+          annotations.get(c.index)
+        )
+      );
+      const promptFilter = fromAzurePromptFilterResults(
+        response.prompt_filter_results
+      );
       return {
-        candidates: response.choices.map((c) =>
-          fromOpenAiChoice(c, request.output?.format === 'json')
-        ),
+        candidates,
         usage: {
           inputTokens: response.usage?.prompt_tokens,
           outputTokens: response.usage?.completion_tokens,
           totalTokens: response.usage?.total_tokens,
         },
-        custom: response,
+        // Genkit only keeps the response-level custom data, so the grounding
+        // and content filter results of the first candidate are copied next
+        // to the completion
+        custom: {
+          ...response,
+          ...(candidates[0]?.custom as object),
+          ...(promptFilter && { promptFilter }),
+        },
       };
     }
   );
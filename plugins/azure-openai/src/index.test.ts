@@ -0,0 +1,359 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from '@jest/globals';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { genkit } from 'genkit';
+
+import { gpt4o } from './gpt';
+import { azureOpenAI, type PluginOptions } from './index';
+
+interface RecordedRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+/** Stand-in for an Azure OpenAI resource, recording the requests it gets. */
+async function startResource() {
+  const requests: RecordedRequest[] = [];
+  const server = createServer(async (req, res) => {
+    let raw = '';
+    for await (const data of req) raw += data;
+    requests.push({
+      url: req.url,
+      headers: req.headers,
+      body: req.headers['content-type']?.startsWith('application/json')
+        ? JSON.parse(raw)
+        : raw,
+    });
+    const path = req.url?.split('?')[0] ?? '';
+    if (path.endsWith('/audio/speech')) {
+      res.writeHead(200, { 'content-type': 'audio/mpeg' });
+      res.end(Buffer.from('mp3'));
+      return;
+    }
+    if (path.endsWith('/audio/transcriptions')) {
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      res.end('Hi!');
+      return;
+    }
+    res.writeHead(200, { 'content-type': 'application/json' });
+    if (path.endsWith('/embeddings')) {
+      // The client requests base64 embeddings unless told otherwise
+      const embedding = Buffer.from(new Float32Array([0.5]).buffer);
+      res.end(
+        JSON.stringify({
+          object: 'list',
+          data: [
+            {
+              object: 'embedding',
+              index: 0,
+              embedding: embedding.toString('base64'),
+            },
+          ],
+        })
+      );
+      return;
+    }
+    res.end(
+      JSON.stringify({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Hi!' },
+            finish_reason: 'stop',
+          },
+        ],
+      })
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return { server, endpoint, requests };
+}
+
+const previewInfo = {
+  label: 'GPT-4o preview deployment',
+  supports: {
+    multiturn: true,
+    tools: false,
+    media: false,
+    systemRole: true,
+    output: ['text'],
+  },
+};
+
+describe('deployments', () => {
+  let main: Awaited<ReturnType<typeof startResource>>;
+  let eu: Awaited<ReturnType<typeof startResource>>;
+
+  beforeAll(async () => {
+    main = await startResource();
+    eu = await startResource();
+  });
+
+  afterAll(async () => {
+    for (const { server } of [main, eu]) {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  beforeEach(() => {
+    main.requests.length = 0;
+    eu.requests.length = 0;
+  });
+
+  function ai(options: Partial<PluginOptions> = {}) {
+    return genkit({
+      plugins: [
+        azureOpenAI({
+          apiKey: 'main-key',
+          endpoint: main.endpoint,
+          apiVersion: 'v1',
+          deployments: [
+            {
+              name: 'gpt-4o-eu',
+              deployment: 'eu-gpt-4o',
+              model: 'gpt-4o',
+              endpoint: eu.endpoint,
+              apiKey: 'eu-key',
+            },
+            {
+              name: 'gpt-4o-preview',
+              model: 'gpt-4o',
+              apiVersion: 'preview',
+              info: previewInfo,
+            },
+          ],
+          ...options,
+        }),
+      ],
+    });
+  }
+
+  async function modelInfo(instance: ReturnType<typeof ai>, name: string) {
+    const action = await instance.registry.lookupAction(
+      `/model/azure-openai/${name}`
+    );
+    return action?.__action.metadata?.model;
+  }
+
+  it('should register each deployment with its capabilities', async () => {
+    const instance = ai();
+    expect(await modelInfo(instance, 'gpt-4o-eu')).toMatchObject(gpt4o.info!);
+    expect(await modelInfo(instance, 'gpt-4o-preview')).toMatchObject(
+      previewInfo
+    );
+    // The built-in model keeps serving the deployment of its name
+    expect(await modelInfo(instance, 'gpt-4o')).toMatchObject(gpt4o.info!);
+  });
+
+  it('should send each deployment to its own client', async () => {
+    const instance = ai();
+    await instance.generate({ model: 'azure-openai/gpt-4o-eu', prompt: 'Hi' });
+    await instance.generate({
+      model: 'azure-openai/gpt-4o-preview',
+      prompt: 'Hi',
+    });
+    await instance.generate({ model: 'azure-openai/gpt-4o', prompt: 'Hi' });
+    expect(
+      eu.requests.map(({ url, headers }) => [url, headers['api-key']])
+    ).toStrictEqual([
+      [
+        '/openai/deployments/eu-gpt-4o/chat/completions?api-version=v1',
+        'eu-key',
+      ],
+    ]);
+    expect(
+      main.requests.map(({ url, headers }) => [url, headers['api-key']])
+    ).toStrictEqual([
+      [
+        '/openai/deployments/gpt-4o-preview/chat/completions?api-version=preview',
+        'main-key',
+      ],
+      [
+        '/openai/deployments/gpt-4o/chat/completions?api-version=v1',
+        'main-key',
+      ],
+    ]);
+    expect(eu.requests[0].body.model).toBe('eu-gpt-4o');
+  });
+
+  it('should route a built-in model to a deployment of the same name', async () => {
+    const instance = ai({
+      deployments: [{ name: 'gpt-4o', deployment: 'gpt-4o-global' }],
+    });
+    await instance.generate({ model: 'azure-openai/gpt-4o', prompt: 'Hi' });
+    expect(main.requests[0].url).toBe(
+      '/openai/deployments/gpt-4o-global/chat/completions?api-version=v1'
+    );
+  });
+
+  it('should require the info of deployments of unknown models', async () => {
+    const plugin = azureOpenAI({
+      apiKey: 'main-key',
+      endpoint: main.endpoint,
+      apiVersion: 'v1',
+      deployments: [{ name: 'custom' }],
+    })(genkit({}));
+    await expect(plugin.initializer()).rejects.toThrow(
+      'Deployment custom must declare its model info or serve a built-in model'
+    );
+  });
+});
+
+describe('custom models', () => {
+  let resource: Awaited<ReturnType<typeof startResource>>;
+
+  beforeAll(async () => {
+    resource = await startResource();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => resource.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    resource.requests.length = 0;
+  });
+
+  const info = {
+    label: 'Custom model',
+    supports: {
+      multiturn: false,
+      tools: false,
+      media: true,
+      systemRole: false,
+      output: ['text'],
+    },
+  };
+
+  function ai(models: PluginOptions['models']) {
+    return genkit({
+      plugins: [
+        azureOpenAI({
+          apiKey: 'key',
+          endpoint: resource.endpoint,
+          apiVersion: 'v1',
+          models,
+        }),
+      ],
+    });
+  }
+
+  it('should register models of every type', async () => {
+    const instance = ai([
+      { name: 'chat-model', info },
+      { name: 'tts-model', type: 'tts', info },
+      { name: 'stt-model', type: 'stt', info },
+      {
+        name: 'embedding-model',
+        type: 'embedder',
+        info: { label: 'Custom embedder', dimensions: 256 },
+      },
+    ]);
+    for (const name of ['chat-model', 'tts-model', 'stt-model']) {
+      const action = await instance.registry.lookupAction(
+        `/model/azure-openai/${name}`
+      );
+      expect(action?.__action.metadata?.model).toMatchObject(info);
+    }
+    const embedder = await instance.registry.lookupAction(
+      '/embedder/azure-openai/embedding-model'
+    );
+    expect(embedder?.__action.metadata?.info).toMatchObject({
+      label: 'Custom embedder',
+      dimensions: 256,
+    });
+  });
+
+  it('should call the API of the type on the deployment of the name', async () => {
+    const instance = ai([
+      { name: 'chat-model', info },
+      { name: 'tts-model', type: 'tts', info },
+      { name: 'stt-model', type: 'stt', info },
+      {
+        name: 'embedding-model',
+        type: 'embedder',
+        info: { dimensions: 256 },
+      },
+    ]);
+    await instance.generate({ model: 'azure-openai/chat-model', prompt: 'Hi' });
+    await instance.generate({ model: 'azure-openai/tts-model', prompt: 'Hi' });
+    await instance.generate({
+      model: 'azure-openai/stt-model',
+      prompt: [{ media: { url: 'data:audio/mpeg;base64,AAAA' } }],
+    });
+    await instance.embed({
+      embedder: 'azure-openai/embedding-model',
+      content: 'Hi',
+    });
+    expect(resource.requests.map(({ url }) => url)).toStrictEqual([
+      '/openai/deployments/chat-model/chat/completions?api-version=v1',
+      '/openai/deployments/tts-model/audio/speech?api-version=v1',
+      '/openai/deployments/stt-model/audio/transcriptions?api-version=v1',
+      '/openai/deployments/embedding-model/embeddings?api-version=v1',
+    ]);
+  });
+
+  it('should reject instructions for tts-1 and tts-1-hd', async () => {
+    await expect(
+      ai([]).generate({
+        model: 'azure-openai/tts-1',
+        prompt: 'Hi',
+        config: { instructions: 'Speak cheerfully.' },
+      })
+    ).rejects.toThrow(
+      'Model tts-1 does not support instructions; use gpt-4o-mini-tts to steer the voice.'
+    );
+    expect(resource.requests).toStrictEqual([]);
+  });
+
+  it('should reject models named after built-in ones', async () => {
+    for (const definition of [
+      { name: 'gpt-4o', info },
+      { name: 'whisper-1', type: 'stt' as const, info },
+      {
+        name: 'text-embedding-3-small',
+        type: 'embedder' as const,
+        info: {},
+      },
+    ]) {
+      const plugin = azureOpenAI({
+        apiKey: 'key',
+        endpoint: resource.endpoint,
+        apiVersion: 'v1',
+        models: [definition],
+      })(genkit({}));
+      await expect(plugin.initializer()).rejects.toThrow(
+        `Model ${definition.name} is already defined`
+      );
+    }
+  });
+});
@@ -14,18 +14,28 @@
  * limitations under the License.
  */
 
-import type { Genkit } from 'genkit';
+import type { EmbedderInfo, Genkit, z } from 'genkit';
+import { embedderRef } from 'genkit';
+import { modelRef, type ModelInfo } from 'genkit/model';
 import { genkitPlugin } from 'genkit/plugin';
 import { AzureClientOptions, AzureOpenAI } from 'openai';
 
+import { type AzureAuthOptions, azureADTokenProvider } from './auth.js';
 import { dallE3, dallE3Model } from './dalle.js';
-import { whisper1, whisper1Model } from './whisper.js';
+import {
+  gpt4oTranscribe,
+  sttModel,
+  SUPPORTED_STT_MODELS,
+  Whisper1ConfigSchema,
+  whisper1,
+} from './whisper.js';
 
 import {
   openaiEmbedder,
   SUPPORTED_EMBEDDING_MODELS,
   textEmbedding3Large,
   textEmbedding3Small,
+  TextEmbeddingConfigSchema,
   textEmbeddingAda002,
 } from './embedder.js';
 import {
@@ -44,14 +54,49 @@ import {
   o4Mini,
   gpt45,
   gptModel,
+  OpenAiConfigSchema,
   SUPPORTED_GPT_MODELS,
 } from './gpt.js';
-import { SUPPORTED_TTS_MODELS, ttsModel, tts1, tts1Hd } from './tts.js';
+import {
+  gpt4oMiniTts,
+  SUPPORTED_TTS_MODELS,
+  TTSConfigSchema,
+  ttsModel,
+  tts1,
+  tts1Hd,
+} from './tts.js';
+export {
+  azureADTokenProvider,
+  type AccessToken,
+  type AzureAuthOptions,
+  type ClientSecretAuth,
+  type ManagedIdentityAuth,
+  type TokenCallbackAuth,
+  type WorkloadIdentityAuth,
+} from './auth.js';
+export type {
+  ContentFilterCategory,
+  ContentFilterReport,
+  ContentFilterSeverity,
+} from './contentfilter.js';
+export {
+  DataSourceSchema,
+  type DataSource,
+  type Grounding,
+} from './datasources.js';
+export {
+  TranscriptSchema,
+  type Transcript,
+  type TranscriptSegment,
+  type TranscriptWord,
+} from './whisper.js';
 export {
   dallE3,
   tts1,
   tts1Hd,
+  gpt4oMiniTts,
   whisper1,
+  gpt4oTranscribe,
   gpt35Turbo,
   gpt4,
   gpt41,
@@ -71,16 +116,227 @@ export {
   textEmbeddingAda002,
 };
 
-export interface PluginOptions extends AzureClientOptions {}
+/**
+ * A chat model served by an Azure OpenAI deployment. The deployment can live
+ * on another resource than the plugin's default one, e.g. in another region.
+ */
+export interface DeploymentDefinition {
+  /**
+   * The Genkit name of the model, registered as `azure-openai/<name>`. Using
+   * the name of a built-in model, e.g. `gpt-4o`, routes that model to the
+   * deployment.
+   */
+  name: string;
+  /** The name of the deployment. Defaults to `name`. */
+  deployment?: string;
+  /**
+   * The built-in model served by the deployment, e.g. `gpt-4o`. Its
+   * capabilities and config schema are used unless `info` or `configSchema`
+   * are given. Defaults to `name`.
+   */
+  model?: string;
+  /** The capabilities of the model. Required for models that are not built in. */
+  info?: ModelInfo;
+  /** The config schema of the model. Defaults to the common GPT config. */
+  configSchema?: z.ZodTypeAny;
+  /** The endpoint of the resource hosting the deployment. */
+  endpoint?: string;
+  /** The API version to call the deployment with. */
+  apiVersion?: string;
+  /** The API key of the resource hosting the deployment. */
+  apiKey?: string;
+}
+
+/**
+ * A model that is not built in, e.g. a newer model or a fine-tune, served by
+ * the deployment of the same name.
+ */
+export type ModelDefinition =
+  | {
+      /** The name of the model and of its deployment. */
+      name: string;
+      /** The kind of model. Defaults to `chat`. */
+      type?: 'chat' | 'tts' | 'stt';
+      info: ModelInfo;
+      /** Defaults to the config schema of the built-in models of the type. */
+      configSchema?: z.ZodTypeAny;
+    }
+  | {
+      name: string;
+      type: 'embedder';
+      info: EmbedderInfo;
+      configSchema?: z.ZodTypeAny;
+    };
+
+export interface PluginOptions extends AzureClientOptions {
+  /** Chat models served by named deployments. */
+  deployments?: DeploymentDefinition[];
+  /** Chat, speech and embedding models with declared capabilities. */
+  models?: ModelDefinition[];
+  /**
+   * Authenticates every action of the plugin with Entra ID (Azure AD) tokens
+   * instead of an API key. Tokens are cached and refreshed before they expire.
+   */
+  auth?: AzureAuthOptions;
+}
+
+/**
+ * Resolves the model reference of a deployment from its declared capabilities
+ * or from the built-in model it serves.
+ */
+function toDeploymentModelRef(definition: DeploymentDefinition) {
+  const base = SUPPORTED_GPT_MODELS[definition.model ?? definition.name];
+  if (!base && !definition.info) {
+    throw new Error(
+      `Deployment ${definition.name} must declare its model info or serve a built-in model`
+    );
+  }
+  return modelRef({
+    name: `azure-openai/${definition.name}`,
+    info: definition.info ?? base.info,
+    configSchema:
+      definition.configSchema ?? base?.configSchema ?? OpenAiConfigSchema,
+  });
+}
+
+/**
+ * Returns the client for a deployment: the default client, unless the
+ * deployment is on another resource or uses another API version or key.
+ */
+function toDeploymentClient(
+  client: AzureOpenAI,
+  clientOptions: AzureClientOptions,
+  { endpoint, apiVersion, apiKey }: DeploymentDefinition
+): AzureOpenAI {
+  if (!endpoint && !apiVersion && !apiKey) return client;
+  const { baseURL, ...options } = clientOptions;
+  return new AzureOpenAI({
+    ...options,
+    ...(endpoint ? { endpoint } : { baseURL }),
+    ...(apiVersion && { apiVersion }),
+    ...(apiKey && { apiKey, azureADTokenProvider: undefined }),
+  });
+}
+
+/**
+ * Defines a model that is not built in with its declared capabilities.
+ */
+function defineCustomModel(
+  ai: Genkit,
+  client: AzureOpenAI,
+  definition: ModelDefinition
+) {
+  const name = `azure-openai/${definition.name}`;
+  switch (definition.type) {
+    case 'embedder':
+      return openaiEmbedder(
+        ai,
+        definition.name,
+        client,
+        embedderRef({
+          name,
+          info: definition.info,
+          configSchema: definition.configSchema ?? TextEmbeddingConfigSchema,
+        })
+      );
+    case 'tts':
+      return ttsModel(
+        ai,
+        definition.name,
+        client,
+        modelRef({
+          name,
+          info: definition.info,
+          configSchema: definition.configSchema ?? TTSConfigSchema,
+        })
+      );
+    case 'stt':
+      return sttModel(
+        ai,
+        definition.name,
+        client,
+        modelRef({
+          name,
+          info: definition.info,
+          configSchema: definition.configSchema ?? Whisper1ConfigSchema,
+        })
+      );
+    default:
+      return gptModel(
+        ai,
+        definition.name,
+        client,
+        modelRef({
+          name,
+          info: definition.info,
+          configSchema: definition.configSchema ?? OpenAiConfigSchema,
+        })
+      );
+  }
+}
 
 export const azureOpenAI = (options?: PluginOptions) =>
   genkitPlugin('azure-openai', async (ai: Genkit) => {
-    const client = new AzureOpenAI(options);
+    const {
+      deployments = [],
+      models = [],
+      auth,
+      ...clientOptions
+    } = options ?? {};
+    if (auth) {
+      // The client also reads the API key from the environment
+      if (
+        clientOptions.apiKey ||
+        process.env.AZURE_OPENAI_API_KEY ||
+        clientOptions.azureADTokenProvider
+      ) {
+        throw new Error(
+          '`auth` cannot be combined with `apiKey`, `AZURE_OPENAI_API_KEY` or `azureADTokenProvider`'
+        );
+      }
+      clientOptions.azureADTokenProvider = azureADTokenProvider(auth);
+    }
+    const client = new AzureOpenAI(clientOptions);
     for (const name of Object.keys(SUPPORTED_GPT_MODELS)) {
+      if (deployments.some((definition) => definition.name === name)) continue;
       gptModel(ai, name, client);
     }
+    for (const definition of deployments) {
+      gptModel(
+        ai,
+        definition.name,
+        toDeploymentClient(client, clientOptions, definition),
+        toDeploymentModelRef(definition),
+        definition.deployment ?? definition.name
+      );
+    }
+    const builtInModels = [
+      ...Object.keys(SUPPORTED_GPT_MODELS),
+      ...Object.keys(SUPPORTED_STT_MODELS),
+      ...Object.keys(SUPPORTED_TTS_MODELS),
+      'dall-e-3',
+      ...deployments.map((definition) => definition.name),
+    ];
+    for (const definition of models) {
+      if (!definition.name || !definition.info) {
+        throw new Error(`Model ${definition.name} is missing required fields`);
+      }
+      // Custom models would register the action of a built-in model again
+      const builtIn =
+        definition.type === 'embedder'
+          ? definition.name in SUPPORTED_EMBEDDING_MODELS
+          : builtInModels.includes(definition.name);
+      if (builtIn) {
+        throw new Error(
+          `Model ${definition.name} is already defined; use \`deployments\` to declare the capabilities of a built-in chat model`
+        );
+      }
+      defineCustomModel(ai, client, definition);
+    }
     dallE3Model(ai, client);
-    whisper1Model(ai, client);
+    for (const name of Object.keys(SUPPORTED_STT_MODELS)) {
+      sttModel(ai, name, client);
+    }
     for (const name of Object.keys(SUPPORTED_TTS_MODELS)) {
       ttsModel(ai, name, client);
     }
@@ -15,7 +15,7 @@
  */
 import type { GenerateRequest, GenerateResponseData, Genkit } from 'genkit';
 import { GenerationCommonConfigSchema, Message, z } from 'genkit';
-import type { ModelAction } from 'genkit/model';
+import type { ModelAction, ModelReference } from 'genkit/model';
 import { modelRef } from 'genkit/model';
 import type AzureOpenAI from 'openai';
 import { type SpeechCreateParams } from 'openai/resources/audio/index.mjs';
@@ -29,6 +29,8 @@ export const TTSConfigSchema = GenerationCommonConfigSchema.extend({
   response_format: z
     .enum(['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'])
     .optional(),
+  /** Instructions on the tone and style of the voice. gpt-4o-mini-tts only. */
+  instructions: z.string().optional(),
 });
 
 export const tts1 = modelRef({
@@ -61,9 +63,25 @@ export const tts1Hd = modelRef({
   configSchema: TTSConfigSchema,
 });
 
+export const gpt4oMiniTts = modelRef({
+  name: 'azure-openai/gpt-4o-mini-tts',
+  info: {
+    label: 'OpenAI - GPT-4o Mini Text-to-speech',
+    supports: {
+      media: false,
+      output: ['media'],
+      multiturn: false,
+      systemRole: false,
+      tools: false,
+    },
+  },
+  configSchema: TTSConfigSchema,
+});
+
 export const SUPPORTED_TTS_MODELS = {
   'tts-1': tts1,
   'tts-1-hd': tts1Hd,
+  'gpt-4o-mini-tts': gpt4oMiniTts,
 };
 
 export const RESPONSE_FORMAT_MEDIA_TYPES = {
@@ -80,12 +98,19 @@ function toTTSRequest(
   request: GenerateRequest<typeof TTSConfigSchema>
 ): SpeechCreateParams {
   const mappedModelName = request.config?.version || modelName;
+  // tts-1 and tts-1-hd, and their versions, reject instructions
+  if (request.config?.instructions && mappedModelName.startsWith('tts-1')) {
+    throw new Error(
+      `Model ${mappedModelName} does not support instructions; use gpt-4o-mini-tts to steer the voice.`
+    );
+  }
   const options: SpeechCreateParams = {
     model: mappedModelName,
     input: new Message(request.messages[0]).text,
     voice: request.config?.voice ?? 'alloy',
     speed: request.config?.speed,
     response_format: request.config?.response_format,
+    instructions: request.config?.instructions,
   };
   for (const k in options) {
     if (options[k] === undefined) {
@@ -121,13 +146,22 @@ function toGenerateResponse(
   };
 }
 
+/**
+ * Defines a text-to-speech model.
+ * @param ai The Genkit instance.
+ * @param name The name of the model, which is also the name of its deployment.
+ * @param client The Azure OpenAI client instance.
+ * @param declaredModel The capabilities of a model that is not built in.
+ * @returns The defined model.
+ */
 export function ttsModel(
   ai: Genkit,
   name: string,
-  client: AzureOpenAI
+  client: AzureOpenAI,
+  declaredModel?: ModelReference<z.ZodTypeAny>
 ): ModelAction<typeof TTSConfigSchema> {
   const modelId = `azure-openai/${name}`;
-  const model = SUPPORTED_TTS_MODELS[name];
+  const model = declaredModel ?? SUPPORTED_TTS_MODELS[name];
   if (!model) throw new Error(`Unsupported model: ${name}`);
 
   return ai.defineModel<typeof TTSConfigSchema>(
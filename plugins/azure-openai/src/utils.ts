@@ -0,0 +1,52 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Maps items with an async function, running at most `concurrency` calls at
+ * once. Results are returned in the order of the items.
+ * @throws An error if `concurrency` is not a positive integer.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(
+      `Concurrency must be a positive integer, got ${concurrency}.`
+    );
+  }
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  // Once a call rejects the result is lost, so no further calls are started.
+  let failed = false;
+  const workers = Array.from(
+    { length: Math.min(concurrency, items.length) },
+    async () => {
+      while (!failed && next < items.length) {
+        const index = next++;
+        try {
+          results[index] = await fn(items[index]);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    }
+  );
+  await Promise.all(workers);
+  return results;
+}
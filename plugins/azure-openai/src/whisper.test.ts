@@ -0,0 +1,317 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import type { GenerateRequest } from 'genkit';
+import type AzureOpenAI from 'openai';
+import type { TranscriptionVerbose } from 'openai/resources/audio/index.mjs';
+
+import {
+  mergeTranscriptText,
+  stitchTranscripts,
+  sttRunner,
+  toSubtitles,
+  toTranscript,
+  type Transcript,
+  Whisper1ConfigSchema,
+} from './whisper';
+
+const AUDIO_DATA_URL = `data:audio/mpeg;base64,${Buffer.from('mp3').toString('base64')}`;
+
+const VERBOSE: TranscriptionVerbose = {
+  text: 'Hello there.',
+  language: 'english',
+  duration: 1.5,
+  segments: [
+    {
+      id: 0,
+      seek: 0,
+      start: 0,
+      end: 1.5,
+      text: 'Hello there.',
+      tokens: [50364, 2425],
+      temperature: 0,
+      avg_logprob: -0.2,
+      compression_ratio: 0.8,
+      no_speech_prob: 0.01,
+    },
+  ],
+  words: [
+    { word: 'Hello', start: 0, end: 0.6 },
+    { word: 'there', start: 0.7, end: 1.4 },
+  ],
+};
+
+function fakeClient(result: unknown) {
+  const create = jest.fn(async (_body: any, _options?: any) => result);
+  return {
+    client: { audio: { transcriptions: { create } } } as unknown as AzureOpenAI,
+    create,
+  };
+}
+
+function request(
+  config: GenerateRequest<typeof Whisper1ConfigSchema>['config'],
+  url = AUDIO_DATA_URL
+): GenerateRequest<typeof Whisper1ConfigSchema> {
+  return {
+    messages: [{ role: 'user', content: [{ media: { url } }] }],
+    config,
+  };
+}
+
+/** Builds a silent mono 16-bit WAV data URL sampled at 1 kHz. */
+function wavDataUrl(seconds: number) {
+  const samples = Buffer.alloc(seconds * 2000);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + samples.length, 4);
+  header.write('WAVEfmt ', 8, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(1000, 24);
+  header.writeUInt32LE(2000, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(samples.length, 40);
+  return `data:audio/wav;base64,${Buffer.concat([header, samples]).toString('base64')}`;
+}
+
+function segment(id: number, start: number, end: number, text: string) {
+  return {
+    id,
+    seek: 0,
+    start,
+    end,
+    text,
+    tokens: [],
+    temperature: 0,
+    avgLogprob: 0,
+    compressionRatio: 1,
+    noSpeechProb: 0,
+  };
+}
+
+describe('toTranscript', () => {
+  it('should map segments and words', () => {
+    expect(toTranscript(VERBOSE)).toStrictEqual({
+      text: 'Hello there.',
+      language: 'english',
+      duration: 1.5,
+      segments: [
+        {
+          id: 0,
+          seek: 0,
+          start: 0,
+          end: 1.5,
+          text: 'Hello there.',
+          tokens: [50364, 2425],
+          temperature: 0,
+          avgLogprob: -0.2,
+          compressionRatio: 0.8,
+          noSpeechProb: 0.01,
+        },
+      ],
+      words: [
+        { word: 'Hello', start: 0, end: 0.6 },
+        { word: 'there', start: 0.7, end: 1.4 },
+      ],
+    });
+  });
+});
+
+describe('sttRunner', () => {
+  it('should return verbose transcripts as text and data', async () => {
+    const { client, create } = fakeClient(VERBOSE);
+    const response = await sttRunner(
+      'whisper-1',
+      client
+    )(request({ timestamp_granularities: ['word', 'segment'] }));
+    expect(create.mock.calls[0][0].response_format).toBe('verbose_json');
+    const content = response.candidates?.[0].message.content;
+    expect(content?.[0]).toStrictEqual({ text: 'Hello there.' });
+    expect(content?.[1].data).toStrictEqual(toTranscript(VERBOSE));
+  });
+
+  it('should tag subtitles with their content type', async () => {
+    const vtt = 'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHello there.\n';
+    const { client } = fakeClient(vtt);
+    const response = await sttRunner(
+      'whisper-1',
+      client
+    )(request({ response_format: 'vtt' }));
+    expect(response.candidates?.[0].message.content).toStrictEqual([
+      { text: vtt, metadata: { contentType: 'text/vtt' } },
+    ]);
+  });
+
+  it('should return plain text by default', async () => {
+    const { client } = fakeClient('Hello there.');
+    const response = await sttRunner('whisper-1', client)(request({}));
+    expect(response.candidates?.[0].message.content).toStrictEqual([
+      { text: 'Hello there.' },
+    ]);
+  });
+
+  it('should not stream whisper-1 transcripts', async () => {
+    const { client, create } = fakeClient('Hello there.');
+    const chunks: string[] = [];
+    await sttRunner('whisper-1', client)(request({}), (chunk) =>
+      chunks.push(chunk.content[0].text!)
+    );
+    expect(create.mock.calls[0][0].stream).toBe(false);
+    expect(chunks).toStrictEqual([]);
+  });
+
+  it('should send the selected model', async () => {
+    const { client, create } = fakeClient('Hello there.');
+    await sttRunner('gpt-4o-transcribe', client)(request({}));
+    expect(create.mock.calls[0][0].model).toBe('gpt-4o-transcribe');
+    expect(create.mock.calls[0][0].file.name).toBe('input.mp3');
+  });
+
+  it('should stream transcript deltas', async () => {
+    const events = [
+      { type: 'transcript.text.delta', delta: 'Hello' },
+      { type: 'transcript.text.delta', delta: ' there.' },
+      { type: 'transcript.text.done', text: 'Hello there.' },
+    ];
+    const { client, create } = fakeClient(
+      (async function* () {
+        yield* events;
+      })()
+    );
+    const chunks: string[] = [];
+    const response = await sttRunner('gpt-4o-transcribe', client)(
+      request({}),
+      (chunk) => chunks.push(chunk.content[0].text!)
+    );
+    expect(create.mock.calls[0][0].stream).toBe(true);
+    expect(chunks).toStrictEqual(['Hello', ' there.']);
+    expect(response.candidates?.[0].message.content).toStrictEqual([
+      { text: 'Hello there.' },
+    ]);
+  });
+
+  it('should transcribe long audio in chunks and stitch the text', async () => {
+    const texts = {
+      'chunk-0.wav': 'The quick brown fox',
+      'chunk-1.wav': 'brown fox jumps over the',
+      'chunk-2.wav': 'over the lazy dog.',
+    };
+    const create = jest.fn(async (body: any, _options?: any) => ({
+      text: texts[body.file.name],
+    }));
+    const client = {
+      audio: { transcriptions: { create } },
+    } as unknown as AzureOpenAI;
+    const chunks: string[] = [];
+    const response = await sttRunner('whisper-1', client)(
+      request({ chunkDuration: 10, chunkOverlap: 1 }, wavDataUrl(25)),
+      (chunk) => chunks.push(chunk.content[0].text!)
+    );
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(create.mock.calls[0][0].response_format).toBe('json');
+    expect(response.candidates?.[0].message.content).toStrictEqual([
+      { text: 'The quick brown fox jumps over the lazy dog.' },
+    ]);
+    expect(chunks.join('')).toBe(
+      'The quick brown fox jumps over the lazy dog.'
+    );
+  });
+});
+
+describe('mergeTranscriptText', () => {
+  it('should drop the words repeated by the overlap', () => {
+    expect(mergeTranscriptText('I went to the', 'The store today.')).toBe(
+      'I went to the store today.'
+    );
+  });
+
+  it('should join transcripts without an overlap', () => {
+    expect(mergeTranscriptText('Hello.', 'Goodbye.')).toBe('Hello. Goodbye.');
+    expect(mergeTranscriptText('', ' Hello.')).toBe('Hello.');
+  });
+});
+
+describe('stitchTranscripts', () => {
+  it('should shift timestamps and drop the overlap', () => {
+    const first: Transcript = {
+      text: 'One two.',
+      language: 'english',
+      duration: 10,
+      segments: [segment(0, 0, 4, ' One.'), segment(1, 8.5, 10, ' Two.')],
+      words: [
+        { word: 'One', start: 1, end: 2 },
+        { word: 'Two', start: 8.6, end: 9.8 },
+      ],
+    };
+    const second: Transcript = {
+      text: 'Two three.',
+      language: 'english',
+      duration: 8,
+      segments: [segment(0, 0, 1.5, ' Two.'), segment(1, 3, 6, ' Three.')],
+      words: [
+        { word: 'Two', start: 0.1, end: 1.3 },
+        { word: 'Three', start: 3, end: 5 },
+      ],
+    };
+    const transcript = stitchTranscripts(
+      [
+        { start: 0, end: 10 },
+        { start: 8.5, end: 16.5 },
+      ],
+      [first, second]
+    );
+    expect(transcript.text).toBe('One. Two. Three.');
+    expect(transcript.duration).toBe(16.5);
+    expect(
+      transcript.segments?.map(({ id, start, end }) => [id, start, end])
+    ).toStrictEqual([
+      [0, 0, 4],
+      [1, 8.5, 10],
+      [2, 11.5, 14.5],
+    ]);
+    expect(transcript.words).toStrictEqual([
+      { word: 'One', start: 1, end: 2 },
+      { word: 'Two', start: 8.6, end: 9.8 },
+      { word: 'Three', start: 11.5, end: 13.5 },
+    ]);
+  });
+});
+
+describe('toSubtitles', () => {
+  const segments = [
+    segment(0, 0, 1.5, ' Hello.'),
+    segment(1, 3661.25, 3662, ' Bye.'),
+  ];
+
+  it('should format SRT cues', () => {
+    expect(toSubtitles(segments, 'srt')).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nHello.\n\n' +
+        '2\n01:01:01,250 --> 01:01:02,000\nBye.\n'
+    );
+  });
+
+  it('should format WebVTT cues', () => {
+    expect(toSubtitles(segments, 'vtt')).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHello.\n\n' +
+        '01:01:01.250 --> 01:01:02.000\nBye.\n'
+    );
+  });
+});
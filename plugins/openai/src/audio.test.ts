@@ -0,0 +1,135 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { audioDuration, splitAudio } from './audio';
+
+const SAMPLE_RATE = 1000;
+
+/**
+ * Builds a mono 16-bit WAV file. `loud(t)` tells whether the sample at `t`
+ * seconds is loud or silent.
+ */
+function makeWav(seconds: number, loud: (t: number) => boolean) {
+  const samples = Buffer.alloc(seconds * SAMPLE_RATE * 2);
+  for (let i = 0; i < seconds * SAMPLE_RATE; i++) {
+    samples.writeInt16LE(loud(i / SAMPLE_RATE) ? 10000 : 0, i * 2);
+  }
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + samples.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(samples.length, 40);
+  return Buffer.concat([header, samples]);
+}
+
+/** Builds an MP3 file of silent MPEG-1 layer III frames at 128 kbps. */
+function makeMp3(frames: number) {
+  // 144 * 128000 / 44100 = 417 bytes per frame, 1152 samples each
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  const tag = Buffer.from([0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 4, 1, 2, 3, 4]);
+  return Buffer.concat([tag, ...Array.from({ length: frames }, () => frame)]);
+}
+
+describe('splitAudio', () => {
+  it('should cut WAV audio on silence with overlap', () => {
+    // Silent from 8.5s to 9s, loud elsewhere
+    const wav = makeWav(20, (t) => t < 8.5 || t >= 9);
+    const chunks = splitAudio(wav, 'audio/wav', {
+      maxDuration: 10,
+      overlap: 1,
+      maxBytes: 1_000_000,
+    })!;
+    expect(chunks.map(({ start, end }) => [start, end])).toStrictEqual([
+      [0, 8.525],
+      [7.525, 17.525],
+      [16.525, 20],
+    ]);
+    // Every chunk is a valid WAV file with the matching duration
+    for (const chunk of chunks) {
+      expect(chunk.contentType).toBe('audio/wav');
+      expect(audioDuration(chunk.data, 'audio/wav')).toBeCloseTo(
+        chunk.end - chunk.start,
+        2
+      );
+    }
+  });
+
+  it('should keep WAV chunks under the size limit', () => {
+    const wav = makeWav(10, () => true);
+    const chunks = splitAudio(wav, 'audio/x-wav', {
+      maxDuration: 600,
+      overlap: 0,
+      maxBytes: 4044,
+    })!;
+    expect(chunks).toHaveLength(5);
+    expect(Math.max(...chunks.map((c) => c.data.length))).toBeLessThanOrEqual(
+      4044
+    );
+  });
+
+  it('should cut MP3 audio on frame boundaries', () => {
+    const mp3 = makeMp3(100);
+    const frameDuration = 1152 / 44100;
+    expect(audioDuration(mp3, 'audio/mpeg')).toBeCloseTo(100 * frameDuration);
+    const chunks = splitAudio(mp3, 'audio/mpeg', {
+      maxDuration: 40 * frameDuration,
+      overlap: 5 * frameDuration,
+      maxBytes: 1_000_000,
+    })!;
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.data.length % 417).toBe(0);
+      expect(chunk.data[0]).toBe(0xff);
+    }
+    expect(chunks[1].start).toBeLessThan(chunks[0].end);
+    expect(chunks[chunks.length - 1].end).toBeCloseTo(100 * frameDuration);
+  });
+
+  it('should not split WAV audio whose header has no byte rate', () => {
+    const wav = makeWav(2, () => true);
+    wav.writeUInt32LE(0, 28);
+    expect(
+      splitAudio(wav, 'audio/wav', {
+        maxDuration: 1,
+        overlap: 0,
+        maxBytes: 1_000_000,
+      })
+    ).toBeUndefined();
+    expect(audioDuration(wav, 'audio/wav')).toBeUndefined();
+  });
+
+  it('should not split unsupported formats', () => {
+    expect(
+      splitAudio(Buffer.alloc(100), 'audio/ogg', {
+        maxDuration: 1,
+        overlap: 0,
+        maxBytes: 10,
+      })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** A piece of a longer audio file, with its position in seconds. */
+export interface AudioChunk {
+  data: Buffer;
+  contentType: string;
+  start: number;
+  end: number;
+}
+
+export interface AudioSplitOptions {
+  /** Maximum length of a chunk in seconds. */
+  maxDuration: number;
+  /** Length in seconds of the audio shared by consecutive chunks. */
+  overlap: number;
+  /** Maximum size of a chunk in bytes. */
+  maxBytes: number;
+}
+
+/** The container formats `splitAudio` can cut without decoding. */
+const SPLITTABLE_FORMATS: Record<string, 'wav' | 'mp3'> = {
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+};
+
+/** Fraction of the window searched backwards for silence to cut on. */
+const SILENCE_SEARCH_FRACTION = 0.2;
+/** Length in seconds of the frames compared when looking for silence. */
+const SILENCE_FRAME = 0.05;
+
+interface WavInfo {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataSize: number;
+}
+
+function parseWav(data: Buffer): WavInfo | undefined {
+  if (
+    data.length < 12 ||
+    data.toString('ascii', 0, 4) !== 'RIFF' ||
+    data.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    return undefined;
+  }
+  let fmt: Omit<WavInfo, 'dataOffset' | 'dataSize'> | undefined;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = data.toString('ascii', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      fmt = {
+        audioFormat: data.readUInt16LE(body),
+        channels: data.readUInt16LE(body + 2),
+        sampleRate: data.readUInt32LE(body + 4),
+        byteRate: data.readUInt32LE(body + 8),
+        blockAlign: data.readUInt16LE(body + 12),
+        bitsPerSample: data.readUInt16LE(body + 14),
+      };
+      // The durations and offsets of the audio are derived from these rates
+      if (!fmt.sampleRate || !fmt.byteRate || !fmt.blockAlign) return undefined;
+    } else if (id === 'data' && fmt) {
+      // Streamed files may leave the size unset
+      return {
+        ...fmt,
+        dataOffset: body,
+        dataSize: Math.min(size, data.length - body),
+      };
+    }
+    offset = body + size + (size % 2);
+  }
+  return undefined;
+}
+
+function wavHeader(info: WavInfo, dataSize: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(info.audioFormat, 20);
+  header.writeUInt16LE(info.channels, 22);
+  header.writeUInt32LE(info.sampleRate, 24);
+  header.writeUInt32LE(info.byteRate, 28);
+  header.writeUInt16LE(info.blockAlign, 32);
+  header.writeUInt16LE(info.bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataSize, 40);
+  return header;
+}
+
+/**
+ * Finds the quietest frame between two positions of 16-bit PCM audio.
+ * @returns The position in seconds of the middle of that frame.
+ */
+function findSilence(
+  data: Buffer,
+  info: WavInfo,
+  from: number,
+  to: number
+): number {
+  const frameBlocks = Math.max(1, Math.round(SILENCE_FRAME * info.sampleRate));
+  const energy = (block: number) => {
+    let sum = 0;
+    const start = info.dataOffset + block * info.blockAlign;
+    const end = start + frameBlocks * info.blockAlign;
+    for (let i = start; i + 1 < end; i += 2) {
+      sum += Math.abs(data.readInt16LE(i));
+    }
+    return sum;
+  };
+  const firstBlock = Math.floor(from * info.sampleRate);
+  const lastBlock = Math.floor(to * info.sampleRate) - frameBlocks;
+  if (lastBlock < firstBlock) return to;
+  // Audio that is not quieter anywhere else is cut at the end of the window
+  let quietest = to;
+  let lowest = energy(lastBlock);
+  for (let block = firstBlock; block < lastBlock; block += frameBlocks) {
+    const frameEnergy = energy(block);
+    if (frameEnergy < lowest) {
+      lowest = frameEnergy;
+      quietest = (block + frameBlocks / 2) / info.sampleRate;
+    }
+  }
+  return quietest;
+}
+
+/**
+ * Returns the chunk boundaries of audio of the given duration. Consecutive
+ * chunks share `overlap` seconds; `cutAt` can move each cut back from the end
+ * of the window, e.g. to the quietest point.
+ */
+function toWindows(
+  duration: number,
+  window: number,
+  overlap: number,
+  cutAt: (from: number, to: number) => number = (_from, to) => to
+): { start: number; end: number }[] {
+  const windows: { start: number; end: number }[] = [];
+  overlap = Math.min(overlap, window / 4);
+  let start = 0;
+  while (start < duration) {
+    const windowEnd = start + window;
+    if (windowEnd >= duration) {
+      windows.push({ start, end: duration });
+      break;
+    }
+    // Never cut inside the overlap, so every chunk moves the start forward
+    const searchFrom = Math.max(
+      windowEnd - window * SILENCE_SEARCH_FRACTION,
+      start + overlap + (window - overlap) / 2
+    );
+    const end = cutAt(searchFrom, windowEnd);
+    windows.push({ start, end });
+    start = end - overlap;
+  }
+  return windows;
+}
+
+function splitWav(
+  data: Buffer,
+  info: WavInfo,
+  options: AudioSplitOptions
+): AudioChunk[] {
+  const duration = info.dataSize / info.byteRate;
+  const window = Math.min(
+    options.maxDuration,
+    (options.maxBytes - 44) / info.byteRate
+  );
+  const silenceDetection = info.audioFormat === 1 && info.bitsPerSample === 16;
+  const windows = toWindows(
+    duration,
+    window,
+    options.overlap,
+    silenceDetection
+      ? (from, to) => findSilence(data, info, from, to)
+      : undefined
+  );
+  return windows.map(({ start, end }) => {
+    const from = Math.floor(start * info.sampleRate) * info.blockAlign;
+    const to = Math.min(
+      Math.floor(end * info.sampleRate) * info.blockAlign,
+      info.dataSize
+    );
+    const samples = data.subarray(info.dataOffset + from, info.dataOffset + to);
+    return {
+      data: Buffer.concat([wavHeader(info, samples.length), samples]),
+      contentType: 'audio/wav',
+      start,
+      end,
+    };
+  });
+}
+
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+
+const MP3_SAMPLE_RATES = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+interface Mp3Frame {
+  offset: number;
+  length: number;
+  duration: number;
+}
+
+/**
+ * Reads the MPEG layer III frames of an MP3 file, skipping ID3 tags and
+ * anything else between frames.
+ */
+function parseMp3(data: Buffer): Mp3Frame[] | undefined {
+  let offset = 0;
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'ID3') {
+    const size =
+      ((data[6] & 0x7f) << 21) |
+      ((data[7] & 0x7f) << 14) |
+      ((data[8] & 0x7f) << 7) |
+      (data[9] & 0x7f);
+    offset = 10 + size + (data[5] & 0x10 ? 10 : 0);
+  }
+  const frames: Mp3Frame[] = [];
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) {
+      offset++;
+      continue;
+    }
+    const version = (data[offset + 1] >> 3) & 0x03;
+    const layer = (data[offset + 1] >> 1) & 0x03;
+    const bitrateIndex = data[offset + 2] >> 4;
+    const sampleRateIndex = (data[offset + 2] >> 2) & 0x03;
+    const padding = (data[offset + 2] >> 1) & 0x01;
+    const sampleRate = MP3_SAMPLE_RATES[version]?.[sampleRateIndex];
+    // Only layer III is supported; free-format frames have no fixed length
+    if (
+      layer !== 1 ||
+      !sampleRate ||
+      bitrateIndex === 0 ||
+      bitrateIndex === 15
+    ) {
+      offset++;
+      continue;
+    }
+    const mpeg1 = version === 3;
+    const bitrate =
+      (mpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[bitrateIndex] * 1000;
+    const length =
+      Math.floor(((mpeg1 ? 144 : 72) * bitrate) / sampleRate) + padding;
+    frames.push({
+      offset,
+      length,
+      duration: (mpeg1 ? 1152 : 576) / sampleRate,
+    });
+    offset += length;
+  }
+  return frames.length ? frames : undefined;
+}
+
+function splitMp3(
+  data: Buffer,
+  frames: Mp3Frame[],
+  options: AudioSplitOptions
+): AudioChunk[] {
+  const starts: number[] = [];
+  let duration = 0;
+  for (const frame of frames) {
+    starts.push(duration);
+    duration += frame.duration;
+  }
+  const last = frames[frames.length - 1];
+  const bytesPerSecond =
+    (last.offset + last.length - frames[0].offset) / duration;
+  // MP3 is cut on frame boundaries; bitrates vary, so keep a safety margin
+  const window = Math.min(
+    options.maxDuration,
+    (options.maxBytes * 0.9) / bytesPerSecond
+  );
+  return toWindows(duration, window, options.overlap).map(({ start, end }) => {
+    let first = starts.findIndex((s) => s >= start);
+    let next = starts.findIndex((s) => s >= end);
+    if (first === -1) first = frames.length - 1;
+    if (next === -1) next = frames.length;
+    const from = frames[first].offset;
+    const to = frames[next - 1].offset + frames[next - 1].length;
+    return {
+      data: data.subarray(from, to),
+      contentType: 'audio/mpeg',
+      start: starts[first],
+      end: next < frames.length ? starts[next] : duration,
+    };
+  });
+}
+
+/**
+ * Splits WAV or MP3 audio into overlapping chunks without decoding it. 16-bit
+ * PCM WAV is cut at the quietest point near the end of each window; other
+ * audio is cut on fixed windows.
+ * @param data The audio file.
+ * @param contentType The content type of the audio.
+ * @param options The chunk length, overlap and size limits.
+ * @returns The chunks in order, or undefined when the format is not supported.
+ */
+export function splitAudio(
+  data: Buffer,
+  contentType: string,
+  options: AudioSplitOptions
+): AudioChunk[] | undefined {
+  const format = SPLITTABLE_FORMATS[contentType.split(';')[0].trim()];
+  if (format === 'wav') {
+    const info = parseWav(data);
+    return info ? splitWav(data, info, options) : undefined;
+  }
+  if (format === 'mp3') {
+    const frames = parseMp3(data);
+    return frames ? splitMp3(data, frames, options) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the duration in seconds of WAV or MP3 audio.
+ * @returns The duration, or undefined when the format is not supported.
+ */
+export function audioDuration(
+  data: Buffer,
+  contentType: string
+): number | undefined {
+  const format = SPLITTABLE_FORMATS[contentType.split(';')[0].trim()];
+  if (format === 'wav') {
+    const info = parseWav(data);
+    return info ? info.dataSize / info.byteRate : undefined;
+  }
+  if (format === 'mp3') {
+    return parseMp3(data)?.reduce((sum, frame) => sum + frame.duration, 0);
+  }
+  return undefined;
+}
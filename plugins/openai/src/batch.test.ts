@@ -0,0 +1,314 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from '@jest/globals';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OpenAI } from 'openai';
+
+import {
+  type BatchRequestLine,
+  embedBatch,
+  generateBatch,
+  submitBatch,
+  toBatchGroups,
+  toGenerateBatchLines,
+} from './batch';
+import { gpt4oMini } from './gpt';
+
+/**
+ * A minimal stand-in for the files and batches endpoints. Batches complete
+ * on the second status poll; chat requests whose last message says "fail"
+ * get an error response.
+ */
+function fakeBatchServer() {
+  const files = new Map<string, string>();
+  const batches = new Map<string, any>();
+  const state = { polls: 0, uploads: [] as string[] };
+
+  function run(input: string): string {
+    return input
+      .split('\n')
+      .map((line) => {
+        const { custom_id, url, body } = JSON.parse(line);
+        if (url === '/v1/embeddings') {
+          return JSON.stringify({
+            id: `out-${custom_id}`,
+            custom_id,
+            response: {
+              status_code: 200,
+              request_id: 'req',
+              body: {
+                object: 'list',
+                model: body.model,
+                // Returned out of order on purpose
+                data: body.input
+                  .map((text: string, index: number) => ({
+                    object: 'embedding',
+                    index,
+                    embedding: [text.length],
+                  }))
+                  .reverse(),
+                usage: { prompt_tokens: 1, total_tokens: 1 },
+              },
+            },
+            error: null,
+          });
+        }
+        const prompt = body.messages[body.messages.length - 1].content;
+        if (prompt === 'fail') {
+          return JSON.stringify({
+            id: `out-${custom_id}`,
+            custom_id,
+            response: {
+              status_code: 400,
+              request_id: 'req',
+              body: { error: { code: 'bad_request', message: 'Bad prompt' } },
+            },
+            error: null,
+          });
+        }
+        return JSON.stringify({
+          id: `out-${custom_id}`,
+          custom_id,
+          response: {
+            status_code: 200,
+            request_id: 'req',
+            body: {
+              id: 'chatcmpl',
+              object: 'chat.completion',
+              created: 0,
+              model: body.model,
+              choices: [
+                {
+                  index: 0,
+                  message: {
+                    role: 'assistant',
+                    content: `Echo: ${prompt}`,
+                    refusal: null,
+                  },
+                  finish_reason: 'stop',
+                  logprobs: null,
+                },
+              ],
+              usage: {
+                prompt_tokens: 2,
+                completion_tokens: 3,
+                total_tokens: 5,
+              },
+            },
+          },
+          error: null,
+        });
+      })
+      .join('\n');
+  }
+
+  const server = createServer(async (req, res) => {
+    let raw = '';
+    for await (const data of req) raw += data;
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.method === 'POST' && req.url === '/v1/files') {
+      // Pull the file out of the multipart body
+      const start = raw.indexOf('\r\n\r\n', raw.indexOf('filename=')) + 4;
+      const content = raw.slice(start, raw.indexOf('\r\n--', start));
+      const id = `file-${files.size}`;
+      files.set(id, content);
+      state.uploads.push(content);
+      return json(200, { id, object: 'file', purpose: 'batch' });
+    }
+    if (req.method === 'POST' && req.url === '/v1/batches') {
+      const body = JSON.parse(raw);
+      const id = `batch-${batches.size}`;
+      batches.set(id, {
+        id,
+        object: 'batch',
+        endpoint: body.endpoint,
+        input_file_id: body.input_file_id,
+        completion_window: body.completion_window,
+        status: 'validating',
+        created_at: 0,
+      });
+      return json(200, batches.get(id));
+    }
+    const batchMatch = req.url?.match(/^\/v1\/batches\/([\w-]+)$/);
+    if (req.method === 'GET' && batchMatch) {
+      const batch = batches.get(batchMatch[1]);
+      state.polls++;
+      if (batch.status === 'validating') {
+        batch.status = 'in_progress';
+      } else if (batch.status === 'in_progress') {
+        const outputId = `file-${files.size}`;
+        files.set(outputId, run(files.get(batch.input_file_id)!));
+        batch.status = 'completed';
+        batch.output_file_id = outputId;
+      }
+      return json(200, batch);
+    }
+    const fileMatch = req.url?.match(/^\/v1\/files\/([\w-]+)\/content$/);
+    if (req.method === 'GET' && fileMatch) {
+      res.writeHead(200, { 'content-type': 'application/octet-stream' });
+      return res.end(files.get(fileMatch[1]));
+    }
+    res.writeHead(404).end();
+  });
+  return { server, state };
+}
+
+describe('batch', () => {
+  let server: Server;
+  let state: { polls: number; uploads: string[] };
+  let client: OpenAI;
+
+  beforeAll(async () => {
+    ({ server, state } = fakeBatchServer());
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    client = new OpenAI({
+      apiKey: 'test',
+      baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    state.polls = 0;
+    state.uploads = [];
+  });
+
+  it('should build chat completion lines with the model request body', () => {
+    const lines = toGenerateBatchLines(gpt4oMini, [
+      {
+        messages: [{ role: 'user', content: [{ text: 'Hi' }] }],
+        config: { temperature: 0.5 },
+      },
+    ]);
+    expect(lines).toStrictEqual([
+      {
+        custom_id: '0',
+        method: 'POST',
+        url: '/v1/chat/completions',
+        body: {
+          model: 'gpt-4o-mini',
+          messages: [{ role: 'user', content: 'Hi' }],
+          temperature: 0.5,
+        },
+      },
+    ]);
+  });
+
+  it('should generate responses in request order', async () => {
+    const results = await generateBatch(
+      client,
+      gpt4oMini,
+      ['Hello', 'fail', 'Bye'].map((text) => ({
+        messages: [{ role: 'user', content: [{ text }] }],
+      })),
+      { pollInterval: 1 }
+    );
+    expect(state.polls).toBe(2);
+    expect(state.uploads[0].split('\n')).toHaveLength(3);
+    expect(results[0].response?.candidates?.[0].message.content).toStrictEqual([
+      { text: 'Echo: Hello' },
+    ]);
+    expect(results[0].response?.usage).toMatchObject({
+      inputTokens: 2,
+      outputTokens: 3,
+    });
+    expect(results[1]).toStrictEqual({
+      error: { code: 'bad_request', message: 'Bad prompt' },
+    });
+    expect(results[2].response?.candidates?.[0].message.content).toStrictEqual([
+      { text: 'Echo: Bye' },
+    ]);
+  });
+
+  it('should embed texts in input order', async () => {
+    const results = await embedBatch(
+      client,
+      'openai/text-embedding-3-small',
+      ['a', 'bb', 'ccc'],
+      { pollInterval: 1, dimensions: 256 }
+    );
+    expect(JSON.parse(state.uploads[0]).body).toStrictEqual({
+      model: 'text-embedding-3-small',
+      input: ['a', 'bb', 'ccc'],
+      dimensions: 256,
+    });
+    expect(results).toStrictEqual([
+      { response: { embedding: [1] } },
+      { response: { embedding: [2] } },
+      { response: { embedding: [3] } },
+    ]);
+  });
+
+  it('should split batches over 50,000 embedding inputs', () => {
+    const lines = Array.from(
+      { length: 3 },
+      (_, i): BatchRequestLine => ({
+        custom_id: String(i * 20_000),
+        method: 'POST',
+        url: '/v1/embeddings',
+        body: {
+          model: 'text-embedding-3-small',
+          input: Array(20_000).fill('a'),
+        },
+      })
+    );
+    expect(
+      toBatchGroups(lines).map((group) => group.map((l) => l.custom_id))
+    ).toStrictEqual([['0', '20000'], ['40000']]);
+  });
+
+  it('should reject lines over the limits of a batch before uploading', async () => {
+    const line: BatchRequestLine = {
+      custom_id: '0',
+      method: 'POST',
+      url: '/v1/embeddings',
+      body: { model: 'text-embedding-3-small', input: Array(50_001).fill('a') },
+    };
+    expect(() => toBatchGroups([line])).toThrow(
+      'A batch takes at most 50000 embedding inputs, got 50001 in request 0.'
+    );
+    await expect(submitBatch(client, [line])).rejects.toThrow(
+      'A batch takes at most 50000 embedding inputs, got 50001.'
+    );
+    expect(state.uploads).toStrictEqual([]);
+  });
+
+  it('should time out while the batch is still running', async () => {
+    await expect(
+      generateBatch(
+        client,
+        'gpt-4o-mini',
+        [{ messages: [{ role: 'user', content: [{ text: 'Hi' }] }] }],
+        { pollInterval: 50, timeout: 10 }
+      )
+    ).rejects.toThrow('still in_progress');
+  });
+});
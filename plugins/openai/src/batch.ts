@@ -0,0 +1,472 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  EmbedderReference,
+  GenerateRequest,
+  GenerateResponseData,
+  ModelReference,
+  z,
+} from 'genkit';
+import { toFile } from 'openai';
+import type OpenAI from 'openai';
+import type { Batch, BatchCreateParams } from 'openai/resources/batches.mjs';
+import type { CreateEmbeddingResponse } from 'openai/resources/embeddings.mjs';
+import type { ChatCompletion } from 'openai/resources/index.mjs';
+
+import {
+  DEFAULT_BATCH_OPTIONS,
+  type TextEmbeddingGeckoConfig,
+  toEmbeddingBatches,
+} from './embedder.js';
+import {
+  fromOpenAiCompletion,
+  inferGptModelRef,
+  OpenAiConfigSchema,
+  SUPPORTED_GPT_MODELS,
+  toBaseModelName,
+  toOpenAiRequestBody,
+} from './gpt.js';
+
+/** The largest number of requests the Batch API accepts in one file. */
+const MAX_BATCH_REQUESTS = 50_000;
+/** The largest number of embedding inputs the Batch API accepts in one batch. */
+const MAX_BATCH_EMBEDDING_INPUTS = 50_000;
+/** The largest input file the Batch API accepts, in bytes. */
+const MAX_BATCH_FILE_BYTES = 200 * 1024 * 1024;
+const DEFAULT_POLL_INTERVAL = 30_000;
+
+const FINAL_STATUSES: Batch['status'][] = [
+  'completed',
+  'expired',
+  'failed',
+  'cancelled',
+];
+
+export interface BatchOptions {
+  /** How often the batch status is polled, in milliseconds. Defaults to 30s. */
+  pollInterval?: number;
+  /**
+   * How long to wait for the batch, in milliseconds. The batch keeps running
+   * on the server when the wait times out.
+   */
+  timeout?: number;
+  /** Metadata attached to the batch. */
+  metadata?: Record<string, string>;
+  /** Called with the batch every time its status is polled. */
+  onStatus?: (batch: Batch) => void;
+  abortSignal?: AbortSignal;
+}
+
+/** One line of a Batch API input file. */
+export interface BatchRequestLine {
+  custom_id: string;
+  method: 'POST';
+  url: BatchCreateParams['endpoint'];
+  body: object;
+}
+
+/** One line of a Batch API output or error file. */
+export interface BatchOutputLine {
+  id: string;
+  custom_id: string;
+  response: { status_code: number; request_id: string; body: any } | null;
+  error: { code?: string; message: string } | null;
+}
+
+/** The result of one request of a batch: its response or its error. */
+export interface BatchResult<T> {
+  response?: T;
+  error?: { code?: string; message: string };
+}
+
+function toModelName(
+  model: string | ModelReference<z.ZodTypeAny> | EmbedderReference<z.ZodTypeAny>
+): string {
+  const name = typeof model === 'string' ? model : model.name;
+  return name.startsWith('openai/') ? name.slice('openai/'.length) : name;
+}
+
+/**
+ * Converts Genkit generate requests into chat completion batch lines. Each
+ * line's `custom_id` is the index of its request.
+ * @param model The GPT model, or its name.
+ * @param requests The Genkit requests.
+ * @returns The batch lines, in request order.
+ */
+export function toGenerateBatchLines(
+  model: string | ModelReference<z.ZodTypeAny>,
+  requests: GenerateRequest<typeof OpenAiConfigSchema>[]
+): BatchRequestLine[] {
+  const name = toModelName(model);
+  // Fine-tunes are not registered until they are resolved by the plugin
+  const declaredModel =
+    !SUPPORTED_GPT_MODELS[name] && SUPPORTED_GPT_MODELS[toBaseModelName(name)]
+      ? inferGptModelRef(name)
+      : undefined;
+  return requests.map((request, index) => ({
+    custom_id: String(index),
+    method: 'POST',
+    url: '/v1/chat/completions',
+    body: toOpenAiRequestBody(name, request, declaredModel),
+  }));
+}
+
+/**
+ * Converts texts into embedding batch lines. Texts are packed into requests
+ * within the embeddings endpoint's input limits; each line's `custom_id` is
+ * the index of its first text.
+ * @param embedder The embedding model, or its name.
+ * @param texts The texts to embed.
+ * @param options The embedding options.
+ * @returns The batch lines, in text order.
+ */
+export function toEmbedBatchLines(
+  embedder: string | EmbedderReference<z.ZodTypeAny>,
+  texts: string[],
+  options?: TextEmbeddingGeckoConfig
+): BatchRequestLine[] {
+  const name = toModelName(embedder);
+  const lines: BatchRequestLine[] = [];
+  let first = 0;
+  for (const input of toEmbeddingBatches(
+    texts,
+    DEFAULT_BATCH_OPTIONS.maxInputs,
+    DEFAULT_BATCH_OPTIONS.maxTokens
+  )) {
+    const body = {
+      model: name,
+      input,
+      dimensions: options?.dimensions,
+      encoding_format: options?.encodingFormat,
+    };
+    for (const k in body) {
+      if (body[k] === undefined) {
+        delete body[k];
+      }
+    }
+    lines.push({
+      custom_id: String(first),
+      method: 'POST',
+      url: '/v1/embeddings',
+      body,
+    });
+    first += input.length;
+  }
+  return lines;
+}
+
+/** Counts the embedding inputs of a batch line; other requests have none. */
+function embeddingInputsOf(line: BatchRequestLine): number {
+  if (line.url !== '/v1/embeddings') return 0;
+  const { input } = line.body as { input?: unknown };
+  return Array.isArray(input) ? input.length : 1;
+}
+
+/**
+ * Splits batch lines into groups that each fit in one batch: at most 50,000
+ * requests, 50,000 embedding inputs and 200 MB of JSONL per group.
+ * @param lines The batch lines.
+ * @returns The groups of lines, in line order.
+ * @throws An error if a single line exceeds the limits of a batch.
+ */
+export function toBatchGroups(lines: BatchRequestLine[]): BatchRequestLine[][] {
+  const groups: BatchRequestLine[][] = [];
+  let group: BatchRequestLine[] = [];
+  let inputs = 0;
+  let bytes = 0;
+  for (const line of lines) {
+    const lineInputs = embeddingInputsOf(line);
+    // Counts the line break that separates the line from the next one
+    const lineBytes = Buffer.byteLength(JSON.stringify(line)) + 1;
+    if (lineInputs > MAX_BATCH_EMBEDDING_INPUTS) {
+      throw new Error(
+        `A batch takes at most ${MAX_BATCH_EMBEDDING_INPUTS} embedding inputs, got ${lineInputs} in request ${line.custom_id}.`
+      );
+    }
+    if (lineBytes > MAX_BATCH_FILE_BYTES) {
+      throw new Error(
+        `A batch file takes at most ${MAX_BATCH_FILE_BYTES} bytes, got ${lineBytes} for request ${line.custom_id}.`
+      );
+    }
+    if (
+      group.length &&
+      (group.length >= MAX_BATCH_REQUESTS ||
+        inputs + lineInputs > MAX_BATCH_EMBEDDING_INPUTS ||
+        bytes + lineBytes > MAX_BATCH_FILE_BYTES)
+    ) {
+      groups.push(group);
+      group = [];
+      inputs = 0;
+      bytes = 0;
+    }
+    group.push(line);
+    inputs += lineInputs;
+    bytes += lineBytes;
+  }
+  if (group.length) groups.push(group);
+  return groups;
+}
+
+/**
+ * Uploads batch lines as a JSONL file and creates a batch job for them.
+ * @param client The OpenAI client instance.
+ * @param lines The batch lines, all for the same endpoint.
+ * @param options The batch options.
+ * @returns The created batch.
+ * @throws An error if the lines exceed the limits of a batch; see
+ * {@link toBatchGroups} to split them.
+ */
+export async function submitBatch(
+  client: OpenAI,
+  lines: BatchRequestLine[],
+  options?: Pick<BatchOptions, 'metadata' | 'abortSignal'>
+): Promise<Batch> {
+  if (!lines.length) throw new Error('A batch needs at least one request.');
+  if (lines.length > MAX_BATCH_REQUESTS) {
+    throw new Error(
+      `A batch takes at most ${MAX_BATCH_REQUESTS} requests, got ${lines.length}.`
+    );
+  }
+  const inputs = lines.reduce((sum, line) => sum + embeddingInputsOf(line), 0);
+  if (inputs > MAX_BATCH_EMBEDDING_INPUTS) {
+    throw new Error(
+      `A batch takes at most ${MAX_BATCH_EMBEDDING_INPUTS} embedding inputs, got ${inputs}.`
+    );
+  }
+  const jsonl = Buffer.from(
+    lines.map((line) => JSON.stringify(line)).join('\n')
+  );
+  if (jsonl.length > MAX_BATCH_FILE_BYTES) {
+    throw new Error(
+      `A batch file takes at most ${MAX_BATCH_FILE_BYTES} bytes, got ${jsonl.length}.`
+    );
+  }
+  const file = await client.files.create(
+    {
+      file: await toFile(jsonl, 'batch.jsonl', {
+        type: 'application/jsonl',
+      }),
+      purpose: 'batch',
+    },
+    { signal: options?.abortSignal }
+  );
+  return client.batches.create(
+    {
+      input_file_id: file.id,
+      endpoint: lines[0].url,
+      completion_window: '24h',
+      metadata: options?.metadata,
+    },
+    { signal: options?.abortSignal }
+  );
+}
+
+function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) return reject(abortSignal.reason);
+    const timer = setTimeout(resolve, ms);
+    abortSignal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(abortSignal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Polls a batch until it completes, expires, fails or is cancelled.
+ * @param client The OpenAI client instance.
+ * @param batchId The ID of the batch.
+ * @param options The polling options.
+ * @returns The batch in its final state.
+ * @throws An error if the batch failed or was cancelled, or if the wait timed out.
+ */
+export async function waitForBatch(
+  client: OpenAI,
+  batchId: string,
+  options?: BatchOptions
+): Promise<Batch> {
+  const pollInterval = options?.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const deadline = options?.timeout ? Date.now() + options.timeout : Infinity;
+  for (;;) {
+    const batch = await client.batches.retrieve(batchId, {
+      signal: options?.abortSignal,
+    });
+    options?.onStatus?.(batch);
+    if (batch.status === 'failed') {
+      const reasons = batch.errors?.data?.map((e) => e.message).join('; ');
+      throw new Error(`Batch ${batchId} failed: ${reasons || 'unknown error'}`);
+    }
+    if (batch.status === 'cancelled') {
+      throw new Error(`Batch ${batchId} was cancelled.`);
+    }
+    if (FINAL_STATUSES.includes(batch.status)) return batch;
+    if (Date.now() + pollInterval > deadline) {
+      throw new Error(
+        `Timed out waiting for batch ${batchId}, which is still ${batch.status}.`
+      );
+    }
+    await sleep(pollInterval, options?.abortSignal);
+  }
+}
+
+/**
+ * Downloads the output and error files of a finished batch.
+ * @param client The OpenAI client instance.
+ * @param batch The finished batch.
+ * @param abortSignal Aborts the downloads.
+ * @returns The output lines, keyed by `custom_id`.
+ */
+export async function readBatchOutput(
+  client: OpenAI,
+  batch: Batch,
+  abortSignal?: AbortSignal
+): Promise<Map<string, BatchOutputLine>> {
+  const output = new Map<string, BatchOutputLine>();
+  for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+    if (!fileId) continue;
+    const content = await client.files.content(fileId, {
+      signal: abortSignal,
+    });
+    for (const line of (await content.text()).split('\n')) {
+      if (!line.trim()) continue;
+      const parsed: BatchOutputLine = JSON.parse(line);
+      output.set(parsed.custom_id, parsed);
+    }
+  }
+  return output;
+}
+
+/**
+ * Submits batch lines in as many jobs as needed, waits for all of them and
+ * returns their output lines in the order of the input lines.
+ */
+async function runBatch(
+  client: OpenAI,
+  lines: BatchRequestLine[],
+  options?: BatchOptions
+): Promise<BatchResult<any>[]> {
+  const groups = toBatchGroups(lines);
+  const outputs = await Promise.all(
+    groups.map(async (group) => {
+      const submitted = await submitBatch(client, group, options);
+      const batch = await waitForBatch(client, submitted.id, options);
+      return {
+        status: batch.status,
+        lines: await readBatchOutput(client, batch, options?.abortSignal),
+      };
+    })
+  );
+  return groups.flatMap((group, i) =>
+    group.map(({ custom_id }): BatchResult<any> => {
+      const line = outputs[i].lines.get(custom_id);
+      if (line?.error) return { error: line.error };
+      if (!line?.response) {
+        return {
+          error:
+            outputs[i].status === 'expired'
+              ? { code: 'batch_expired', message: 'The batch expired.' }
+              : { message: 'The batch returned no result.' },
+        };
+      }
+      if (line.response.status_code !== 200) {
+        return {
+          error: {
+            code: line.response.body?.error?.code,
+            message:
+              line.response.body?.error?.message ??
+              `Request failed with status ${line.response.status_code}.`,
+          },
+        };
+      }
+      return { response: line.response.body };
+    })
+  );
+}
+
+/**
+ * Generates responses for many requests through the Batch API, at a lower
+ * price than the chat completions endpoint. Requests are converted like the
+ * GPT models convert them, and every completion is mapped back into a Genkit
+ * response.
+ *
+ * Example:
+ * ```
+ * import { OpenAI } from 'openai';
+ * import { generateBatch, gpt4oMini } from 'genkitx-openai';
+ *
+ * const results = await generateBatch(new OpenAI(), gpt4oMini, [
+ *   { messages: [{ role: 'user', content: [{ text: 'Tell me a joke.' }] }] },
+ * ]);
+ * ```
+ * @param client The OpenAI client instance.
+ * @param model The GPT model, or its name.
+ * @param requests The Genkit requests.
+ * @param options The batch options.
+ * @returns The result of each request, in request order.
+ */
+export async function generateBatch(
+  client: OpenAI,
+  model: string | ModelReference<z.ZodTypeAny>,
+  requests: GenerateRequest<typeof OpenAiConfigSchema>[],
+  options?: BatchOptions
+): Promise<BatchResult<GenerateResponseData>[]> {
+  const lines = toGenerateBatchLines(model, requests);
+  const results = await runBatch(client, lines, options);
+  return results.map(({ response, error }, i) =>
+    error
+      ? { error }
+      : {
+          response: fromOpenAiCompletion(
+            response as ChatCompletion,
+            requests[i],
+            lines[i].body as ReturnType<typeof toOpenAiRequestBody>
+          ),
+        }
+  );
+}
+
+/**
+ * Embeds many texts through the Batch API, at a lower price than the
+ * embeddings endpoint.
+ * @param client The OpenAI client instance.
+ * @param embedder The embedding model, or its name.
+ * @param texts The texts to embed.
+ * @param options The embedding and batch options.
+ * @returns The result of each text, in text order.
+ */
+export async function embedBatch(
+  client: OpenAI,
+  embedder: string | EmbedderReference<z.ZodTypeAny>,
+  texts: string[],
+  options?: BatchOptions & TextEmbeddingGeckoConfig
+): Promise<BatchResult<{ embedding: number[] }>[]> {
+  const lines = toEmbedBatchLines(embedder, texts, options);
+  const results = await runBatch(client, lines, options);
+  return results.flatMap(
+    ({ response, error }, i): BatchResult<{ embedding: number[] }>[] => {
+      const count = (lines[i].body as { input: string[] }).input.length;
+      if (error) return Array.from({ length: count }, () => ({ error }));
+      return [...(response as CreateEmbeddingResponse).data]
+        .sort((a, b) => a.index - b.index)
+        .map((d) => ({ response: { embedding: d.embedding } }));
+    }
+  );
+}
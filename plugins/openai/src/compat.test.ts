@@ -0,0 +1,240 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from '@jest/globals';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { genkit, z } from 'genkit';
+
+import { openAICompatible } from './compat';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body?: any;
+}
+
+function completion(content: string) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'llama-3',
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content, refusal: null },
+        finish_reason: 'stop',
+        logprobs: null,
+      },
+    ],
+    usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+  };
+}
+
+function chunk(delta: object, finishReason: string | null = null) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'llama-3',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+describe('openAICompatible', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: RecordedRequest[] = [];
+  let reply = 'Hello!';
+
+  beforeAll(async () => {
+    // Minimal stand-in for an OpenAI-compatible server such as vLLM
+    server = createServer(async (req, res) => {
+      let raw = '';
+      for await (const data of req) raw += data;
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body,
+      });
+      if (req.method === 'GET' && req.url === '/v1/models') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            object: 'list',
+            data: [{ id: 'llama-3', object: 'model', created: 0 }],
+          })
+        );
+      } else if (req.url === '/v1/chat/completions' && body.stream) {
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        for (const event of [
+          chunk({ role: 'assistant', content: 'Hel' }),
+          chunk({ content: 'lo!' }),
+          chunk({}, 'stop'),
+        ]) {
+          res.write(`data: ${JSON.stringify(event)}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+      } else if (req.url === '/v1/chat/completions') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(completion(reply)));
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    reply = 'Hello!';
+  });
+
+  it('should generate with declared models under the namespace', async () => {
+    const ai = genkit({
+      plugins: [
+        openAICompatible({
+          name: 'local',
+          baseURL,
+          models: [{ name: 'llama-3' }],
+        }),
+      ],
+    });
+    const response = await ai.generate({
+      model: 'local/llama-3',
+      prompt: 'Hi',
+      config: { temperature: 0.2 },
+    });
+    expect(response.text).toBe('Hello!');
+    expect(response.usage.inputTokens).toBe(3);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toStrictEqual({
+      model: 'llama-3',
+      messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 0.2,
+    });
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('should send the API key when one is configured', async () => {
+    const ai = genkit({
+      plugins: [
+        openAICompatible({
+          name: 'local',
+          baseURL,
+          apiKey: 'secret',
+          models: [{ name: 'llama-3' }],
+        }),
+      ],
+    });
+    await ai.generate({ model: 'local/llama-3', prompt: 'Hi' });
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('should stream responses', async () => {
+    const ai = genkit({
+      plugins: [
+        openAICompatible({
+          name: 'local',
+          baseURL,
+          models: [{ name: 'llama-3' }],
+        }),
+      ],
+    });
+    const { stream, response } = ai.generateStream({
+      model: 'local/llama-3',
+      prompt: 'Hi',
+    });
+    const chunks: string[] = [];
+    for await (const c of stream) chunks.push(c.text);
+    expect(chunks).toStrictEqual(['Hel', 'lo!']);
+    expect((await response).text).toBe('Hello!');
+  });
+
+  it('should use structured outputs when the model declares them', async () => {
+    reply = '{"name":"Genkit"}';
+    const ai = genkit({
+      plugins: [
+        openAICompatible({
+          name: 'local',
+          baseURL,
+          models: [
+            {
+              name: 'llama-3',
+              info: {
+                supports: {
+                  multiturn: true,
+                  output: ['text', 'json'],
+                  constrained: 'all',
+                },
+              },
+            },
+          ],
+        }),
+      ],
+    });
+    const response = await ai.generate({
+      model: 'local/llama-3',
+      prompt: 'Name a framework',
+      output: { schema: z.object({ name: z.string() }) },
+    });
+    expect(response.output).toStrictEqual({ name: 'Genkit' });
+    expect(requests[0].body.response_format).toStrictEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'output',
+        schema: {
+          type: 'object',
+          properties: { name: { type: 'string' } },
+          required: ['name'],
+          additionalProperties: false,
+        },
+        strict: true,
+      },
+    });
+  });
+
+  it('should resolve undeclared models and list server models', async () => {
+    const ai = genkit({
+      plugins: [openAICompatible({ name: 'local', baseURL })],
+    });
+    const response = await ai.generate({
+      model: 'local/mistral-7b',
+      prompt: 'Hi',
+    });
+    expect(response.text).toBe('Hello!');
+    expect(requests[0].body.model).toBe('mistral-7b');
+
+    const actions = await ai.registry.listResolvableActions();
+    expect(actions['/model/local/llama-3']).toBeDefined();
+  });
+});
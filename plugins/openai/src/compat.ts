@@ -0,0 +1,173 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { ActionMetadata, ModelReference, z } from 'genkit';
+import type { ModelAction, ModelInfo } from 'genkit/model';
+import { modelRef } from 'genkit/model';
+import { genkitPluginV2, model, modelActionMetadata } from 'genkit/plugin';
+import type { ActionType } from 'genkit/registry';
+import { type ClientOptions, OpenAI } from 'openai';
+
+import { gptRunner, OpenAiConfigSchema } from './gpt.js';
+
+export interface OpenAICompatibleModelDefinition {
+  /** The model name as the server knows it, e.g. `llama-3.1-8b-instruct`. */
+  name: string;
+  /** The capabilities of the model. Defaults to text and JSON chat with tools. */
+  info?: ModelInfo;
+  /** The config schema of the model. Defaults to `OpenAiConfigSchema`. */
+  configSchema?: any;
+}
+
+export interface OpenAICompatibleOptions
+  extends Omit<Partial<ClientOptions>, 'baseURL'> {
+  /** The namespace the models are registered under, e.g. `vllm`. */
+  name: string;
+  /** The base URL of the server, e.g. `http://localhost:8000/v1`. */
+  baseURL: string;
+  /** The models served by the server. Other models are resolved on first use. */
+  models?: OpenAICompatibleModelDefinition[];
+}
+
+const DEFAULT_MODEL_INFO: ModelInfo = {
+  supports: {
+    multiturn: true,
+    tools: true,
+    media: false,
+    systemRole: true,
+    output: ['text', 'json'],
+  },
+};
+
+/**
+ * Creates the reference of a model served by an OpenAI-compatible server.
+ * @param namespace The namespace of the plugin.
+ * @param definition The model definition.
+ * @returns The model reference, named `<namespace>/<model name>`.
+ */
+export function compatModelRef(
+  namespace: string,
+  definition: OpenAICompatibleModelDefinition
+): ModelReference<z.ZodTypeAny> {
+  return modelRef({
+    name: `${namespace}/${definition.name}`,
+    info: {
+      label: `${namespace} - ${definition.name}`,
+      ...DEFAULT_MODEL_INFO,
+      ...definition.info,
+    },
+    configSchema: definition.configSchema ?? OpenAiConfigSchema,
+  });
+}
+
+/**
+ * Defines a model served by an OpenAI-compatible server.
+ * @param namespace The namespace of the plugin.
+ * @param definition The model definition.
+ * @param client The OpenAI client pointed at the server.
+ * @returns The defined model.
+ */
+export function compatModel(
+  namespace: string,
+  definition: OpenAICompatibleModelDefinition,
+  client: OpenAI
+): ModelAction<typeof OpenAiConfigSchema> {
+  const ref = compatModelRef(namespace, definition);
+  return model(
+    {
+      name: ref.name,
+      ...ref.info,
+      configSchema: definition.configSchema ?? OpenAiConfigSchema,
+    },
+    gptRunner(definition.name, client, ref)
+  );
+}
+
+/**
+ * Lists the models reported by the server's `/models` endpoint along with the
+ * declared ones. Servers without that endpoint only list the declared models.
+ */
+async function list(
+  namespace: string,
+  client: OpenAI,
+  declared: Map<string, OpenAICompatibleModelDefinition>
+): Promise<ActionMetadata[]> {
+  const names = new Set(declared.keys());
+  try {
+    for (const { id } of (await client.models.list()).data) {
+      names.add(id);
+    }
+  } catch {
+    // Not all servers implement /models
+  }
+  return [...names].map((name) => {
+    const ref = compatModelRef(namespace, declared.get(name) ?? { name });
+    return modelActionMetadata({
+      name: ref.name,
+      info: ref.info,
+      configSchema: ref.configSchema,
+    });
+  });
+}
+
+/**
+ * This module provides a plugin for servers that implement the OpenAI chat
+ * completions API, such as vLLM, the llama.cpp server or LM Studio. Models are
+ * registered under the configured namespace with the declared capabilities.
+ * The API key is optional: without one, no `Authorization` header is sent.
+ *
+ * Example:
+ * ```
+ * import { openAICompatible } from 'genkitx-openai';
+ *
+ * const ai = genkit({
+ *   plugins: [
+ *     openAICompatible({
+ *       name: 'vllm',
+ *       baseURL: 'http://localhost:8000/v1',
+ *       models: [{ name: 'meta-llama/Llama-3.1-8B-Instruct' }],
+ *     }),
+ *   ],
+ * });
+ * ```
+ */
+export const openAICompatible = (options: OpenAICompatibleOptions) => {
+  const { name: namespace, models = [], ...clientOptions } = options;
+  const client = new OpenAI({
+    ...clientOptions,
+    apiKey: clientOptions.apiKey ?? '',
+    defaultHeaders: clientOptions.apiKey
+      ? clientOptions.defaultHeaders
+      : { ...clientOptions.defaultHeaders, Authorization: null },
+  });
+  const declared = new Map(models.map((model) => [model.name, model]));
+  let listActionsCache: ActionMetadata[] | null = null;
+
+  return genkitPluginV2({
+    name: namespace,
+    init: async () =>
+      models.map((definition) => compatModel(namespace, definition, client)),
+    resolve: (actionType: ActionType, name: string) => {
+      if (actionType !== 'model') return undefined;
+      return compatModel(namespace, declared.get(name) ?? { name }, client);
+    },
+    list: async () => {
+      if (listActionsCache) return listActionsCache;
+      listActionsCache = await list(namespace, client, declared);
+      return listActionsCache;
+    },
+  });
+};
@@ -13,15 +13,15 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import type { GenerateRequest, GenerateResponseData, Genkit } from 'genkit';
+import type { GenerateRequest } from 'genkit';
 import { GenerationCommonConfigSchema, Message, z } from 'genkit';
 import type { ModelAction } from 'genkit/model';
 import { modelRef } from 'genkit/model';
+import { model } from 'genkit/plugin';
 import type OpenAI from 'openai';
-import {
-  type ImageGenerateParams,
-  type ImagesResponse,
-} from 'openai/resources/images.mjs';
+import { type ImageGenerateParams } from 'openai/resources/images.mjs';
+
+import { toImageGenerateResponse } from './image.js';
 
 export const DallE3ConfigSchema = GenerationCommonConfigSchema.extend({
   size: z.enum(['1024x1024', '1792x1024', '1024x1792']).optional(),
@@ -67,41 +67,20 @@ function toDallE3Request(
   return options;
 }
 
-function toGenerateResponse(result: ImagesResponse): GenerateResponseData {
-  const candidates: GenerateResponseData['candidates'] = result.data.map(
-    (image, index) => ({
-      index: index,
-      finishReason: 'stop',
-      custom: { revisedPrompt: image.revised_prompt },
-      message: {
-        role: 'model',
-        content: [
-          {
-            media: {
-              contentType: 'image/png',
-              url: image.url || `data:image/png;base64,${image.b64_json}`,
-            },
-          },
-        ],
-      },
-    })
-  );
-  return { candidates };
-}
-
 export function dallE3Model(
-  ai: Genkit,
   client: OpenAI
 ): ModelAction<typeof DallE3ConfigSchema> {
-  return ai.defineModel<typeof DallE3ConfigSchema>(
+  return model<typeof DallE3ConfigSchema>(
     {
       name: dallE3.name,
       ...dallE3.info,
       configSchema: dallE3.configSchema,
     },
-    async (request) => {
-      const result = await client.images.generate(toDallE3Request(request));
-      return toGenerateResponse(result);
+    async (request, { abortSignal }) => {
+      const result = await client.images.generate(toDallE3Request(request), {
+        signal: abortSignal,
+      });
+      return toImageGenerateResponse(result);
     }
   );
 }
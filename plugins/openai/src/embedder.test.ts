@@ -0,0 +1,101 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type OpenAI from 'openai';
+import type { EmbeddingCreateParams } from 'openai/resources/embeddings.mjs';
+
+import { openaiEmbedder, toEmbeddingBatches } from './embedder';
+
+describe('toEmbeddingBatches', () => {
+  it('should limit the number of inputs per batch', () => {
+    expect(toEmbeddingBatches(['a', 'b', 'c', 'd', 'e'], 2, 1000)).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e'],
+    ]);
+  });
+
+  it('should limit the estimated tokens per batch', () => {
+    const text = 'x'.repeat(30); // 10 estimated tokens
+    expect(toEmbeddingBatches([text, text, text], 100, 25)).toEqual([
+      [text, text],
+      [text],
+    ]);
+  });
+
+  it('should give oversized inputs a batch of their own', () => {
+    const big = 'x'.repeat(300);
+    expect(toEmbeddingBatches(['a', big, 'b'], 100, 10)).toEqual([
+      ['a'],
+      [big],
+      ['b'],
+    ]);
+  });
+});
+
+describe('openaiEmbedder', () => {
+  it('should batch requests on the shared client and keep input order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const create = jest.fn(async (params: EmbeddingCreateParams) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      const input = params.input as string[];
+      // Later batches finish first to exercise ordering
+      await new Promise((resolve) => setTimeout(resolve, 40 - input[0].length));
+      inFlight--;
+      return {
+        data: input
+          .map((text, index) => ({ index, embedding: [text.length] }))
+          .reverse(),
+      };
+    });
+    const client = { embeddings: { create } } as unknown as OpenAI;
+    const embedder = openaiEmbedder('text-embedding-3-small', client, {
+      maxInputs: 2,
+      concurrency: 2,
+    });
+    const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee', 'ffffff', 'ggggggg'];
+
+    const result = await embedder({
+      input: texts.map((text) => ({ content: [{ text }] })),
+      options: { dimensions: 256 },
+    });
+
+    expect(result.embeddings).toStrictEqual(
+      texts.map((text) => ({ embedding: [text.length] }))
+    );
+    expect(create).toHaveBeenCalledTimes(4);
+    expect(create.mock.calls[0][0]).toStrictEqual({
+      model: 'text-embedding-3-small',
+      input: ['a', 'bb'],
+      dimensions: 256,
+      encoding_format: undefined,
+    });
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should reject batching limits that are not positive integers', () => {
+    const client = {} as OpenAI;
+    expect(() =>
+      openaiEmbedder('text-embedding-3-small', client, { concurrency: 0 })
+    ).toThrow('embeddingBatch.concurrency must be a positive integer, got 0.');
+    expect(() =>
+      openaiEmbedder('text-embedding-3-small', client, { maxInputs: NaN })
+    ).toThrow('embeddingBatch.maxInputs must be a positive integer, got NaN.');
+  });
+});
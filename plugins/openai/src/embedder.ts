@@ -16,11 +16,11 @@
 
 // import { defineEmbedder, embedderRef } from '@genkit-ai/ai/embedder';
 
-import OpenAI from 'openai';
-import type { Genkit } from 'genkit';
+import type OpenAI from 'openai';
 import { embedderRef, z } from 'genkit';
+import { embedder } from 'genkit/plugin';
 
-import { type PluginOptions } from './index.js';
+import { mapWithConcurrency } from './utils.js';
 
 export const TextEmbeddingConfigSchema = z.object({
   dimensions: z.number().optional(),
@@ -75,36 +75,126 @@ export const SUPPORTED_EMBEDDING_MODELS = {
   'text-embedding-ada-002': textEmbeddingAda002,
 };
 
+export interface EmbeddingBatchOptions {
+  /** Maximum number of inputs per request. Defaults to 2048. */
+  maxInputs?: number;
+  /** Maximum estimated number of tokens per request. Defaults to 300,000. */
+  maxTokens?: number;
+  /** Maximum number of requests in flight at once. Defaults to 4. */
+  concurrency?: number;
+}
+
+export const DEFAULT_BATCH_OPTIONS: Required<EmbeddingBatchOptions> = {
+  maxInputs: 2048,
+  maxTokens: 300_000,
+  concurrency: 4,
+};
+
+/**
+ * Estimates the number of tokens of a text. English averages about four
+ * characters per token; three is used so batches stay under the limit.
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3);
+}
+
+/**
+ * Splits texts into consecutive batches that stay within the input count and
+ * token limits. A text larger than the token limit gets a batch of its own.
+ * @param texts The texts to embed.
+ * @param maxInputs The maximum number of texts per batch.
+ * @param maxTokens The maximum estimated number of tokens per batch.
+ * @returns The batches, in input order.
+ */
+export function toEmbeddingBatches(
+  texts: string[],
+  maxInputs: number,
+  maxTokens: number
+): string[][] {
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let batchTokens = 0;
+  for (const text of texts) {
+    const tokens = estimateTokens(text);
+    if (
+      batch.length &&
+      (batch.length >= maxInputs || batchTokens + tokens > maxTokens)
+    ) {
+      batches.push(batch);
+      batch = [];
+      batchTokens = 0;
+    }
+    batch.push(text);
+    batchTokens += tokens;
+  }
+  if (batch.length) batches.push(batch);
+  return batches;
+}
+
+/**
+ * Defines an OpenAI embedder. Inputs are sent in batches that respect the
+ * API's input count and token limits, with a bounded number of concurrent
+ * requests; embeddings are returned in input order.
+ * @param name The name of the embedding model.
+ * @param client The OpenAI client instance.
+ * @param batchOptions Overrides of the batching limits.
+ * @returns The defined embedder.
+ * @throws An error if a batching limit is not a positive integer.
+ */
 export function openaiEmbedder(
-  ai: Genkit,
   name: string,
-  options?: PluginOptions
+  client: OpenAI,
+  batchOptions?: EmbeddingBatchOptions
 ) {
-  let apiKey = options?.apiKey || process.env.OPENAI_API_KEY;
-  if (!apiKey)
-    throw new Error(
-      'please pass in the API key or set the OPENAI_API_KEY environment variable'
-    );
   const model = SUPPORTED_EMBEDDING_MODELS[name];
   if (!model) throw new Error(`Unsupported model: ${name}`);
+  const { maxInputs, maxTokens, concurrency } = {
+    ...DEFAULT_BATCH_OPTIONS,
+    ...batchOptions,
+  };
+  for (const [option, value] of Object.entries({
+    maxInputs,
+    maxTokens,
+    concurrency,
+  })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(
+        `embeddingBatch.${option} must be a positive integer, got ${value}.`
+      );
+    }
+  }
 
-  const client = new OpenAI({ apiKey });
-  return ai.defineEmbedder(
+  return embedder(
     {
       info: model.info!,
       configSchema: TextEmbeddingConfigSchema,
       name: model.name,
     },
-    async (input, options) => {
-      const embeddings = await client.embeddings.create({
-        model: name,
-        input: input.map((d) => d.text),
-        dimensions: options?.dimensions,
-        encoding_format: options?.encodingFormat,
-      });
-      return {
-        embeddings: embeddings.data.map((d) => ({ embedding: d.embedding })),
-      };
+    async ({ input, options }, { abortSignal }) => {
+      const batches = toEmbeddingBatches(
+        input.map((d) => d.text),
+        maxInputs,
+        maxTokens
+      );
+      const results = await mapWithConcurrency(
+        batches,
+        concurrency,
+        async (batch) => {
+          const embeddings = await client.embeddings.create(
+            {
+              model: name,
+              input: batch,
+              dimensions: options?.dimensions,
+              encoding_format: options?.encodingFormat,
+            },
+            { signal: abortSignal }
+          );
+          return [...embeddings.data]
+            .sort((a, b) => a.index - b.index)
+            .map((d) => ({ embedding: d.embedding }));
+        }
+      );
+      return { embeddings: results.flat() };
     }
   );
 }
@@ -22,26 +22,35 @@ import type {
   ChatCompletionRole,
 } from 'openai/resources/index.mjs';
 import type OpenAI from 'openai';
-import type { GenerateRequest, Genkit, MessageData, Part, Role } from 'genkit';
+import type { GenerateRequest, MessageData, Part, Role } from 'genkit';
 import type { CandidateData } from 'genkit/model';
+import { model } from 'genkit/plugin';
 
 import {
   gpt4o,
+  gpt4oMini,
   fromOpenAiChoice,
   fromOpenAiChunkChoice,
+  OpenAiStreamAccumulator,
   fromOpenAiToolCall,
+  fromOpenAiUsage,
+  fromStrictToolRequests,
   gptModel,
+  inferGptModelRef,
+  OpenAiReasoningConfigSchema,
+  SUPPORTED_GPT_MODELS,
   toOpenAIRole,
   toOpenAiMessages,
   toOpenAiRequestBody,
   toOpenAiTextAndMedia,
+  toOpenAiTool,
   gptRunner,
 } from './gpt';
-import type { OpenAiConfigSchema } from './gpt';
+import type { OpenAiAudioConfigSchema, OpenAiConfigSchema } from './gpt';
 
-jest.mock('@genkit-ai/ai/model', () => ({
-  ...jest.requireActual('@genkit-ai/ai/model'),
-  defineModel: jest.fn(),
+jest.mock('genkit/plugin', () => ({
+  ...jest.requireActual('genkit/plugin'),
+  model: jest.fn(),
 }));
 
 describe('toOpenAIRole', () => {
@@ -105,6 +114,59 @@ describe('toOpenAiTextAndMedia', () => {
     });
   });
 
+  it('should transform audio content to input_audio', () => {
+    const part: Part = {
+      media: { contentType: 'audio/mpeg', url: 'data:audio/mpeg;base64,AAAA' },
+    };
+    expect(toOpenAiTextAndMedia(part, 'low')).toStrictEqual({
+      type: 'input_audio',
+      input_audio: { data: 'AAAA', format: 'mp3' },
+    });
+  });
+
+  it('should infer the content type from data URLs', () => {
+    const part: Part = { media: { url: 'data:audio/wav;base64,AAAA' } };
+    expect(toOpenAiTextAndMedia(part, 'low')).toStrictEqual({
+      type: 'input_audio',
+      input_audio: { data: 'AAAA', format: 'wav' },
+    });
+  });
+
+  it('should transform PDF content to a file part', () => {
+    const part: Part = {
+      media: {
+        contentType: 'application/pdf',
+        url: 'data:application/pdf;base64,JVBERi0=',
+      },
+      metadata: { filename: 'report.pdf' },
+    };
+    expect(toOpenAiTextAndMedia(part, 'low')).toStrictEqual({
+      type: 'file',
+      file: {
+        file_data: 'data:application/pdf;base64,JVBERi0=',
+        filename: 'report.pdf',
+      },
+    });
+  });
+
+  it('should require audio to be inlined', () => {
+    const part: Part = {
+      media: { contentType: 'audio/wav', url: 'https://example.com/a.wav' },
+    };
+    expect(() => toOpenAiTextAndMedia(part, 'low', 'gpt-4o')).toThrowError(
+      'Audio input for model gpt-4o must be provided as a base64 data URL, got media of type audio/wav.'
+    );
+  });
+
+  it('should throw an error for unsupported media types', () => {
+    const part: Part = {
+      media: { contentType: 'video/mp4', url: 'https://example.com/a.mp4' },
+    };
+    expect(() => toOpenAiTextAndMedia(part, 'low', 'gpt-4o')).toThrowError(
+      'Unsupported media type video/mp4 for model gpt-4o.'
+    );
+  });
+
   it('should throw an error for unknown parts', () => {
     const part: Part = { data: 'hi' };
     expect(() => toOpenAiTextAndMedia(part, 'low')).toThrowError(
@@ -304,6 +366,32 @@ describe('fromOpenAiToolCall', () => {
     });
   });
 
+  it('should parse arguments of forced tool calls', () => {
+    const toolCall: ChatCompletionMessageToolCall = {
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'tellAFunnyJoke', arguments: '{"topic":"bob"}' },
+    };
+    const actualOutput = fromOpenAiToolCall(toolCall, {
+      message: { tool_calls: [toolCall] },
+      finish_reason: 'stop',
+    } as ChatCompletion.Choice);
+    expect(actualOutput.toolRequest.input).toStrictEqual({ topic: 'bob' });
+  });
+
+  it('should pass on the arguments of truncated tool calls as text', () => {
+    const toolCall: ChatCompletionMessageToolCall = {
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'tellAFunnyJoke', arguments: '{"topic":"bo' },
+    };
+    const actualOutput = fromOpenAiToolCall(toolCall, {
+      message: { tool_calls: [toolCall] },
+      finish_reason: 'length',
+    } as ChatCompletion.Choice);
+    expect(actualOutput.toolRequest.input).toBe('{"topic":"bo');
+  });
+
   it('should throw an error if tool call is missing required fields', () => {
     const toolCall: ChatCompletionMessageToolCall = {
       id: 'call_SVDpFV2l2fW88QRFtv85FWwM',
@@ -422,6 +510,93 @@ describe('fromOpenAiChoice', () => {
       expect(actualOutput).toStrictEqual(test.expectedOutput);
     });
   }
+
+  it('should report refusals as blocked candidates', () => {
+    const actualOutput = fromOpenAiChoice(
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          refusal: "I'm sorry, I can't help with that.",
+        },
+        finish_reason: 'stop',
+        logprobs: null,
+      },
+      true
+    );
+    expect(actualOutput).toStrictEqual({
+      index: 0,
+      finishReason: 'blocked',
+      finishMessage: "I'm sorry, I can't help with that.",
+      message: { role: 'model', content: [] },
+      custom: {},
+    });
+  });
+
+  it('should report token logprobs', () => {
+    const actualOutput = fromOpenAiChoice({
+      index: 0,
+      message: { role: 'assistant', content: 'Yes', refusal: null },
+      finish_reason: 'stop',
+      logprobs: {
+        content: [
+          {
+            token: 'Yes',
+            logprob: -0.01,
+            bytes: [89, 101, 115],
+            top_logprobs: [
+              { token: 'Yes', logprob: -0.01, bytes: [89, 101, 115] },
+              { token: 'No', logprob: -4.6, bytes: null },
+            ],
+          },
+        ],
+        refusal: null,
+      },
+    });
+    expect(actualOutput.custom).toStrictEqual({
+      logprobs: {
+        content: [
+          {
+            token: 'Yes',
+            logprob: -0.01,
+            bytes: [89, 101, 115],
+            topLogprobs: [
+              { token: 'Yes', logprob: -0.01, bytes: [89, 101, 115] },
+              { token: 'No', logprob: -4.6 },
+            ],
+          },
+        ],
+      },
+    });
+  });
+
+  it('should drop strict-mode nulls for optional output fields', () => {
+    const actualOutput = fromOpenAiChoice(
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: JSON.stringify({ title: 'Pancakes', servings: null }),
+          refusal: null,
+        },
+        finish_reason: 'stop',
+        logprobs: null,
+      },
+      true,
+      {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          servings: { type: 'number' },
+        },
+        required: ['title'],
+      }
+    );
+    expect(actualOutput.message.content).toStrictEqual([
+      { data: { title: 'Pancakes' } },
+    ]);
+  });
 });
 
 describe('fromOpenAiChunkChoice', () => {
@@ -524,6 +699,145 @@ describe('fromOpenAiChunkChoice', () => {
   }
 });
 
+describe('OpenAiStreamAccumulator', () => {
+  function toolCallChunk(
+    toolCalls: ChatCompletionChunk.Choice.Delta.ToolCall[],
+    finishReason: ChatCompletionChunk.Choice['finish_reason'] = null
+  ): ChatCompletionChunk.Choice {
+    return {
+      index: 0,
+      delta: { tool_calls: toolCalls },
+      finish_reason: finishReason,
+    };
+  }
+
+  it('should assemble tool call fragments by index', () => {
+    const accumulator = new OpenAiStreamAccumulator();
+    const chunks = [
+      toolCallChunk([
+        {
+          index: 0,
+          id: 'call_1',
+          function: { name: 'lookup', arguments: '' },
+        },
+      ]),
+      toolCallChunk([{ index: 0, function: { arguments: '{"q": "ca' } }]),
+      toolCallChunk([
+        {
+          index: 1,
+          id: 'call_2',
+          function: { name: 'weather', arguments: '{"city"' },
+        },
+      ]),
+      toolCallChunk([{ index: 0, function: { arguments: 't"}' } }]),
+      toolCallChunk([{ index: 1, function: { arguments: ': "Paris"}' } }]),
+      toolCallChunk([], 'tool_calls'),
+    ].map((chunk) => accumulator.add(chunk));
+
+    expect(chunks[0]).toStrictEqual({
+      index: 0,
+      content: [
+        {
+          toolRequest: { name: 'lookup', ref: 'call_1', input: '' },
+          metadata: { partial: true },
+        },
+      ],
+    });
+    expect(chunks[1]).toStrictEqual({
+      index: 0,
+      content: [
+        {
+          toolRequest: { name: 'lookup', ref: 'call_1', input: { q: 'ca' } },
+          metadata: { partial: true },
+        },
+      ],
+    });
+    expect(chunks[2]).toStrictEqual({
+      index: 0,
+      content: [
+        {
+          toolRequest: { name: 'weather', ref: 'call_2', input: {} },
+          metadata: { partial: true },
+        },
+      ],
+    });
+    expect(chunks[5]).toStrictEqual({
+      index: 0,
+      content: [
+        { toolRequest: { name: 'lookup', ref: 'call_1', input: { q: 'cat' } } },
+        {
+          toolRequest: {
+            name: 'weather',
+            ref: 'call_2',
+            input: { city: 'Paris' },
+          },
+        },
+      ],
+    });
+  });
+
+  it('should emit assembled JSON alongside text deltas in JSON mode', () => {
+    const accumulator = new OpenAiStreamAccumulator(true);
+    const first = accumulator.add({
+      index: 0,
+      delta: { content: '{"name": "Ge' },
+      finish_reason: null,
+    });
+    const second = accumulator.add({
+      index: 0,
+      delta: { content: 'nkit", "tags": [' },
+      finish_reason: null,
+    });
+    expect(first).toStrictEqual({
+      index: 0,
+      content: [{ text: '{"name": "Ge' }, { data: { name: 'Ge' } }],
+    });
+    expect(second).toStrictEqual({
+      index: 0,
+      content: [
+        { text: 'nkit", "tags": [' },
+        { data: { name: 'Genkit', tags: [] } },
+      ],
+    });
+  });
+
+  it('should report the logprobs of each delta', () => {
+    const accumulator = new OpenAiStreamAccumulator();
+    expect(
+      accumulator.add({
+        index: 0,
+        delta: { content: 'Hi' },
+        finish_reason: null,
+        logprobs: {
+          content: [
+            { token: 'Hi', logprob: -0.5, bytes: null, top_logprobs: [] },
+          ],
+          refusal: null,
+        },
+      })
+    ).toStrictEqual({
+      index: 0,
+      content: [{ text: 'Hi' }],
+      custom: {
+        logprobs: {
+          content: [{ token: 'Hi', logprob: -0.5, topLogprobs: [] }],
+        },
+      },
+    });
+  });
+
+  it('should skip chunks without content', () => {
+    const accumulator = new OpenAiStreamAccumulator();
+    expect(
+      accumulator.add({
+        index: 0,
+        delta: { role: 'assistant' },
+        finish_reason: null,
+      })
+    ).toBeUndefined();
+  });
+});
+
 describe('toOpenAiRequestBody', () => {
   const testCases = [
     {
@@ -654,6 +968,8 @@ describe('toOpenAiRequestBody', () => {
             type: 'function',
             function: {
               name: 'tellAFunnyJoke',
+              description:
+                'Tells jokes about an input topic. Use this tool whenever user asks you to tell a joke.',
               parameters: {
                 type: 'object',
                 properties: { topic: { type: 'string' } },
@@ -727,6 +1043,11 @@ describe('toOpenAiRequestBody', () => {
             role: 'user',
             content: 'Tell a joke about dogs.',
           },
+          // JSON mode needs the prompt to ask for JSON
+          {
+            role: 'user',
+            content: '\n\nOutput should be in JSON format.\n',
+          },
           {
             role: 'assistant',
             tool_calls: [
@@ -751,6 +1072,8 @@ describe('toOpenAiRequestBody', () => {
             type: 'function',
             function: {
               name: 'tellAFunnyJoke',
+              description:
+                'Tells jokes about an input topic. Use this tool whenever user asks you to tell a joke.',
               parameters: {
                 type: 'object',
                 properties: { topic: { type: 'string' } },
@@ -822,6 +1145,11 @@ describe('toOpenAiRequestBody', () => {
             role: 'user',
             content: 'Tell a joke about dogs.',
           },
+          // JSON mode needs the prompt to ask for JSON
+          {
+            role: 'user',
+            content: '\n\nOutput should be in JSON format.\n',
+          },
           {
             role: 'assistant',
             tool_calls: [
@@ -846,6 +1174,8 @@ describe('toOpenAiRequestBody', () => {
             type: 'function',
             function: {
               name: 'tellAFunnyJoke',
+              description:
+                'Tells jokes about an input topic. Use this tool whenever user asks you to tell a joke.',
               parameters: {
                 type: 'object',
                 properties: { topic: { type: 'string' } },
@@ -917,6 +1247,11 @@ describe('toOpenAiRequestBody', () => {
             role: 'user',
             content: 'Tell a joke about dogs.',
           },
+          // JSON mode needs the prompt to ask for JSON
+          {
+            role: 'user',
+            content: '\n\nOutput should be in JSON format.\n',
+          },
           {
             role: 'assistant',
             tool_calls: [
@@ -941,6 +1276,8 @@ describe('toOpenAiRequestBody', () => {
             type: 'function',
             function: {
               name: 'tellAFunnyJoke',
+              description:
+                'Tells jokes about an input topic. Use this tool whenever user asks you to tell a joke.',
               parameters: {
                 type: 'object',
                 properties: { topic: { type: 'string' } },
@@ -1095,6 +1432,8 @@ describe('toOpenAiRequestBody', () => {
           type: 'function',
           function: {
             name: 'tellAFunnyJoke',
+            description:
+              'Tells jokes about an input topic. Use this tool whenever user asks you to tell a joke.',
             parameters: {
               type: 'object',
               properties: { topic: { type: 'string' } },
@@ -1247,6 +1586,8 @@ describe('toOpenAiRequestBody', () => {
           type: 'function',
           function: {
             name: 'tellAFunnyJoke',
+            description:
+              'Tells jokes about an input topic. Use this tool whenever user asks you to tell a joke.',
             parameters: {
               type: 'object',
               properties: { topic: { type: 'string' } },
@@ -1289,6 +1630,119 @@ describe('toOpenAiRequestBody', () => {
       })
     ).toThrowError('media format is not supported for GPT models currently');
   });
+
+  it('should send a strict json_schema response format when a schema is provided', () => {
+    const actualOutput = toOpenAiRequestBody('gpt-4o', {
+      messages: [],
+      output: {
+        format: 'json',
+        schema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            servings: { type: 'number' },
+          },
+          required: ['title'],
+          additionalProperties: true,
+          $schema: 'http://json-schema.org/draft-07/schema#',
+        },
+      },
+    });
+    expect(actualOutput.response_format).toStrictEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'output',
+        schema: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            servings: { type: ['number', 'null'] },
+          },
+          required: ['title', 'servings'],
+          additionalProperties: false,
+        },
+        strict: true,
+      },
+    });
+  });
+
+  it('should add the schema to the prompt of JSON mode requests', () => {
+    const schema = {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name'],
+    };
+    const body = toOpenAiRequestBody('gpt-4o', {
+      messages: [{ role: 'user', content: [{ text: 'Name a framework' }] }],
+      output: { format: 'json', schema },
+      config: { version: 'gpt-4o-2024-05-13' },
+    });
+    expect(body.response_format).toStrictEqual({ type: 'json_object' });
+    expect(body.messages).toStrictEqual([
+      { role: 'user', content: 'Name a framework' },
+      {
+        role: 'user',
+        content: `\n\nOutput should be in JSON format and conform to the following schema:\n\n\`\`\`\n${JSON.stringify(schema)}\n\`\`\`\n`,
+      },
+    ]);
+  });
+
+  it('should not send schemas strict mode cannot enforce as strict', () => {
+    const record = {
+      type: 'object',
+      properties: {
+        scores: { type: 'object', additionalProperties: { type: 'number' } },
+      },
+      required: ['scores'],
+    };
+    const recordBody = toOpenAiRequestBody('gpt-4o', {
+      messages: [{ role: 'user', content: [{ text: 'Score the teams' }] }],
+      output: { format: 'json', schema: record },
+    });
+    expect(recordBody.response_format).toStrictEqual({ type: 'json_object' });
+    expect(recordBody.messages[1].content).toContain(JSON.stringify(record));
+
+    const list = { type: 'array', items: { type: 'string' } };
+    const listBody = toOpenAiRequestBody('gpt-4o', {
+      messages: [{ role: 'user', content: [{ text: 'Name frameworks' }] }],
+      output: { format: 'json', schema: list },
+    });
+    // JSON mode only replies with objects
+    expect(listBody.response_format).toBeUndefined();
+    expect(listBody.messages[1].content).toContain(JSON.stringify(list));
+  });
+
+  it('should keep the output instructions Genkit already added', () => {
+    const body = toOpenAiRequestBody('gpt-4-turbo', {
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { text: 'Name a framework' },
+            { text: 'Reply in JSON.', metadata: { purpose: 'output' } },
+          ],
+        },
+      ],
+      output: { format: 'json', schema: { type: 'object', properties: {} } },
+    });
+    expect(body.messages).toStrictEqual([
+      { role: 'user', content: 'Name a framework' },
+      { role: 'user', content: 'Reply in JSON.' },
+    ]);
+  });
+
+  it('should fall back to json_object for models without structured outputs', () => {
+    const actualOutput = toOpenAiRequestBody('gpt-4-turbo', {
+      messages: [],
+      output: {
+        format: 'json',
+        schema: { type: 'object', properties: {} },
+      },
+    });
+    expect(actualOutput.response_format).toStrictEqual({
+      type: 'json_object',
+    });
+  });
 });
 
 describe('gptRunner', () => {
@@ -1303,10 +1757,57 @@ describe('gptRunner', () => {
       },
     };
     const runner = gptRunner('gpt-4o', openaiClient as unknown as OpenAI);
-    await runner({ messages: [] });
-    expect(openaiClient.chat.completions.create).toHaveBeenCalledWith({
-      model: 'gpt-4o',
-    });
+    const abortSignal = new AbortController().signal;
+    await runner(
+      { messages: [] },
+      { streamingRequested: false, sendChunk: jest.fn(), abortSignal }
+    );
+    expect(openaiClient.chat.completions.create).toHaveBeenCalledWith(
+      { model: 'gpt-4o' },
+      { signal: abortSignal }
+    );
+  });
+
+  it('should report the logprobs of the first candidate', async () => {
+    const completion = {
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'No' },
+          finish_reason: 'stop',
+          logprobs: {
+            content: [
+              { token: 'No', logprob: -0.1, bytes: null, top_logprobs: [] },
+            ],
+            refusal: null,
+          },
+        },
+      ],
+    };
+    const openaiClient = {
+      chat: {
+        completions: {
+          create: jest.fn(async (_body: any, _options?: any) => completion),
+        },
+      },
+    };
+    const runner = gptRunner('gpt-4o', openaiClient as unknown as OpenAI);
+    const response = await runner(
+      { messages: [], config: { logProbs: true } },
+      {
+        streamingRequested: false,
+        sendChunk: jest.fn(),
+        abortSignal: new AbortController().signal,
+      }
+    );
+    const logprobs = {
+      content: [{ token: 'No', logprob: -0.1, topLogprobs: [] }],
+    };
+    expect(openaiClient.chat.completions.create.mock.calls[0][0]).toMatchObject(
+      { logprobs: true }
+    );
+    expect(response.candidates?.[0].custom).toStrictEqual({ logprobs });
+    expect(response.custom).toStrictEqual({ ...completion, logprobs });
   });
 
   it('should correctly run streaming requests', async () => {
@@ -1344,36 +1845,38 @@ describe('gptRunner', () => {
         },
       },
     };
-    const streamingCallback = jest.fn();
+    const sendChunk = jest.fn();
     const runner = gptRunner('gpt-4o', openaiClient as unknown as OpenAI);
-    await runner({ messages: [] }, streamingCallback);
-    expect(openaiClient.beta.chat.completions.stream).toHaveBeenCalledWith({
-      model: 'gpt-4o',
-      stream: true,
-      stream_options: {
-        include_usage: true,
+    const abortSignal = new AbortController().signal;
+    await runner(
+      { messages: [] },
+      { streamingRequested: true, sendChunk, abortSignal }
+    );
+    expect(openaiClient.beta.chat.completions.stream).toHaveBeenCalledWith(
+      {
+        model: 'gpt-4o',
+        stream: true,
+        stream_options: {
+          include_usage: true,
+        },
       },
+      { signal: abortSignal }
+    );
+    expect(sendChunk).toHaveBeenCalledWith({
+      index: 0,
+      content: [{ text: 'response' }],
     });
   });
 });
 
 describe('gptModel', () => {
-  let ai: Genkit;
-
-  beforeEach(() => {
-    ai = {
-      defineModel: jest.fn(),
-    } as unknown as Genkit;
-  });
-
   afterEach(() => {
     jest.clearAllMocks();
   });
 
   it('should correctly define supported GPT models', () => {
-    jest.spyOn(ai, 'defineModel').mockImplementation((() => ({})) as any);
-    gptModel(ai, 'gpt-4o', {} as OpenAI);
-    expect(ai.defineModel).toHaveBeenCalledWith(
+    gptModel('gpt-4o', {} as OpenAI);
+    expect(model).toHaveBeenCalledWith(
       {
         name: gpt4o.name,
         ...gpt4o.info,
@@ -1384,9 +1887,8 @@ describe('gptModel', () => {
   });
 
   it('should correctly define gpt-4.1, gpt-4.1-mini, and gpt-4.1-nano', () => {
-    jest.spyOn(ai, 'defineModel').mockImplementation((() => ({})) as any);
-    gptModel(ai, 'gpt-4.1', {} as OpenAI);
-    expect(ai.defineModel).toHaveBeenCalledWith(
+    gptModel('gpt-4.1', {} as OpenAI);
+    expect(model).toHaveBeenCalledWith(
       {
         name: 'openai/gpt-4.1',
         ...require('./gpt').gpt41.info,
@@ -1394,8 +1896,8 @@ describe('gptModel', () => {
       },
       expect.any(Function)
     );
-    gptModel(ai, 'gpt-4.1-mini', {} as OpenAI);
-    expect(ai.defineModel).toHaveBeenCalledWith(
+    gptModel('gpt-4.1-mini', {} as OpenAI);
+    expect(model).toHaveBeenCalledWith(
       {
         name: 'openai/gpt-4.1-mini',
         ...require('./gpt').gpt41Mini.info,
@@ -1403,8 +1905,8 @@ describe('gptModel', () => {
       },
       expect.any(Function)
     );
-    gptModel(ai, 'gpt-4.1-nano', {} as OpenAI);
-    expect(ai.defineModel).toHaveBeenCalledWith(
+    gptModel('gpt-4.1-nano', {} as OpenAI);
+    expect(model).toHaveBeenCalledWith(
       {
         name: 'openai/gpt-4.1-nano',
         ...require('./gpt').gpt41Nano.info,
@@ -1413,6 +1915,68 @@ describe('gptModel', () => {
       expect.any(Function)
     );
   });
+
+  it('should infer capabilities of fine-tuned models', () => {
+    const name = 'ft:gpt-4o-mini-2024-07-18:acme::abc123';
+    gptModel(name, {} as OpenAI);
+    expect(model).toHaveBeenCalledWith(
+      {
+        name: `openai/${name}`,
+        label: `OpenAI - ${name}`,
+        supports: gpt4oMini.info!.supports,
+        configSchema: gpt4oMini.configSchema,
+      },
+      expect.any(Function)
+    );
+    // The inferred reference is not added to the built-in models
+    expect(SUPPORTED_GPT_MODELS[name]).toBeUndefined();
+  });
+});
+
+describe('inferGptModelRef', () => {
+  it('should only declare constrained output for versions supporting it', () => {
+    const name = 'ft:gpt-4o-2024-05-13:acme::abc123';
+    const ref = inferGptModelRef(name);
+    expect(ref.info?.supports?.constrained).toBeUndefined();
+    const body = toOpenAiRequestBody(
+      name,
+      {
+        messages: [],
+        output: { format: 'json', schema: { type: 'object', properties: {} } },
+      },
+      ref
+    );
+    expect(body.response_format).toStrictEqual({ type: 'json_object' });
+  });
+
+  it('should fall back to generic chat capabilities', () => {
+    const ref = inferGptModelRef('ft:o9-mini:acme::abc123');
+    expect(ref.info?.supports).toStrictEqual({
+      multiturn: true,
+      tools: true,
+      media: false,
+      systemRole: false,
+      output: ['text', 'json'],
+    });
+    expect(ref.configSchema).toBe(OpenAiReasoningConfigSchema);
+  });
+
+  it('should apply base model features to fine-tuned model requests', () => {
+    const name = 'ft:gpt-4o-mini-2024-07-18:acme::abc123';
+    const body = toOpenAiRequestBody(
+      name,
+      {
+        messages: [],
+        output: {
+          format: 'json',
+          schema: { type: 'object', properties: {} },
+        },
+      },
+      inferGptModelRef(name)
+    );
+    expect(body.model).toBe(name);
+    expect(body.response_format?.type).toBe('json_schema');
+  });
 });
 
 // Additional test to ensure toOpenAiRequestBody works for new models
@@ -1435,3 +1999,351 @@ describe('toOpenAiRequestBody for new GPT-4.1 variants', () => {
     ).not.toThrow();
   });
 });
+
+describe('reasoning models', () => {
+  it('should translate parameters for reasoning models', () => {
+    const actualOutput = toOpenAiRequestBody('o3', {
+      messages: [{ role: 'user', content: [{ text: 'Solve it.' }] }],
+      config: {
+        maxOutputTokens: 1000,
+        temperature: 0.5,
+        topP: 0.9,
+        presencePenalty: 1,
+        seed: 7,
+        reasoningEffort: 'high',
+      },
+    } as GenerateRequest<typeof OpenAiConfigSchema>);
+    expect(actualOutput).toStrictEqual({
+      model: 'o3',
+      messages: [{ role: 'user', content: 'Solve it.' }],
+      max_completion_tokens: 1000,
+      reasoning_effort: 'high',
+      seed: 7,
+    });
+  });
+
+  it('should keep max_tokens for other models', () => {
+    const actualOutput = toOpenAiRequestBody('gpt-4o', {
+      messages: [],
+      config: { maxOutputTokens: 1000, temperature: 0.5 },
+    });
+    expect(actualOutput).toStrictEqual({
+      model: 'gpt-4o',
+      max_tokens: 1000,
+      temperature: 0.5,
+    });
+  });
+});
+
+describe('audio output', () => {
+  it('should request audio when an audio config is set', () => {
+    const actualOutput = toOpenAiRequestBody('gpt-4o-audio-preview', {
+      messages: [{ role: 'user', content: [{ text: 'Say hi.' }] }],
+      config: { audio: { voice: 'nova', format: 'mp3' } },
+    } as GenerateRequest<typeof OpenAiAudioConfigSchema>);
+    expect(actualOutput).toStrictEqual({
+      model: 'gpt-4o-audio-preview',
+      messages: [{ role: 'user', content: 'Say hi.' }],
+      modalities: ['text', 'audio'],
+      audio: { voice: 'nova', format: 'mp3' },
+    });
+  });
+
+  it('should default the voice and format', () => {
+    const actualOutput = toOpenAiRequestBody('gpt-4o-audio-preview', {
+      messages: [],
+      config: { modalities: ['text', 'audio'] },
+    } as GenerateRequest<typeof OpenAiAudioConfigSchema>);
+    expect(actualOutput.audio).toStrictEqual({ voice: 'alloy', format: 'wav' });
+  });
+
+  it('should convert audio replies to media and transcript parts', () => {
+    const choice = {
+      index: 0,
+      finish_reason: 'stop',
+      logprobs: null,
+      message: {
+        role: 'assistant',
+        content: null,
+        refusal: null,
+        audio: {
+          id: 'audio_1',
+          data: 'AAAA',
+          expires_at: 1700000000,
+          transcript: 'Hi!',
+        },
+      },
+    } as ChatCompletion.Choice;
+    expect(fromOpenAiChoice(choice, false, undefined, 'mp3')).toStrictEqual({
+      index: 0,
+      finishReason: 'stop',
+      message: {
+        role: 'model',
+        content: [
+          {
+            media: {
+              contentType: 'audio/mpeg',
+              url: 'data:audio/mpeg;base64,AAAA',
+            },
+            metadata: { audioId: 'audio_1', expiresAt: 1700000000 },
+          },
+          { text: 'Hi!' },
+        ],
+      },
+      custom: {},
+    });
+  });
+});
+
+describe('streamed audio output', () => {
+  function audioChunk(audio: object): ChatCompletionChunk.Choice {
+    return {
+      index: 0,
+      delta: { audio } as ChatCompletionChunk.Choice.Delta,
+      finish_reason: null,
+    };
+  }
+
+  const chunks = [
+    audioChunk({ id: 'audio_1', transcript: 'Hi' }),
+    audioChunk({ data: 'AAAA', transcript: ' there!' }),
+    audioChunk({ data: 'BBBB' }),
+    audioChunk({ expires_at: 1700000000 }),
+  ];
+
+  it('should assemble the audio deltas of a choice', () => {
+    const accumulator = new OpenAiStreamAccumulator();
+    expect(chunks.map((chunk) => accumulator.add(chunk))).toStrictEqual([
+      { index: 0, content: [{ text: 'Hi' }] },
+      { index: 0, content: [{ text: ' there!' }] },
+      undefined,
+      undefined,
+    ]);
+    expect(accumulator.audioOf(0)).toStrictEqual({
+      id: 'audio_1',
+      data: 'AAAABBBB',
+      expires_at: 1700000000,
+      transcript: 'Hi there!',
+    });
+    expect(accumulator.audioOf(1)).toBeUndefined();
+  });
+
+  function streamingClient() {
+    return {
+      beta: {
+        chat: {
+          completions: {
+            stream: jest.fn((_body: any, _options?: any) => ({
+              async *[Symbol.asyncIterator]() {
+                for (const choice of chunks) yield { choices: [choice] };
+              },
+              // The SDK keeps the last audio delta only
+              async finalChatCompletion() {
+                return {
+                  choices: [
+                    {
+                      index: 0,
+                      finish_reason: 'stop',
+                      message: {
+                        role: 'assistant',
+                        content: null,
+                        audio: { expires_at: 1700000000 },
+                      },
+                    },
+                  ],
+                };
+              },
+            })),
+          },
+        },
+      },
+    };
+  }
+
+  it('should stream audio as pcm16 and return the assembled audio', async () => {
+    const openaiClient = streamingClient();
+    const sendChunk = jest.fn();
+    const runner = gptRunner(
+      'gpt-4o-audio-preview',
+      openaiClient as unknown as OpenAI
+    );
+    const response = await runner(
+      {
+        messages: [{ role: 'user', content: [{ text: 'Say hi.' }] }],
+        config: { modalities: ['text', 'audio'] },
+      } as GenerateRequest<typeof OpenAiAudioConfigSchema>,
+      {
+        streamingRequested: true,
+        sendChunk,
+        abortSignal: new AbortController().signal,
+      }
+    );
+    expect(
+      openaiClient.beta.chat.completions.stream.mock.calls[0][0].audio
+    ).toStrictEqual({ voice: 'alloy', format: 'pcm16' });
+    expect(sendChunk).toHaveBeenCalledTimes(2);
+    expect(response.candidates?.[0].message.content).toStrictEqual([
+      {
+        media: {
+          contentType: 'audio/L16',
+          url: 'data:audio/L16;base64,AAAABBBB',
+        },
+        metadata: { audioId: 'audio_1', expiresAt: 1700000000 },
+      },
+      { text: 'Hi there!' },
+    ]);
+  });
+
+  it('should reject other formats when streaming audio', async () => {
+    const openaiClient = streamingClient();
+    const runner = gptRunner(
+      'gpt-4o-audio-preview',
+      openaiClient as unknown as OpenAI
+    );
+    await expect(
+      runner(
+        {
+          messages: [],
+          config: { audio: { format: 'mp3' } },
+        } as GenerateRequest<typeof OpenAiAudioConfigSchema>,
+        {
+          streamingRequested: true,
+          sendChunk: jest.fn(),
+          abortSignal: new AbortController().signal,
+        }
+      )
+    ).rejects.toThrow(
+      'Streaming audio output requires the pcm16 format, got mp3.'
+    );
+    expect(openaiClient.beta.chat.completions.stream).not.toHaveBeenCalled();
+  });
+});
+
+describe('fromOpenAiUsage', () => {
+  it('should report reasoning and cached tokens', () => {
+    expect(
+      fromOpenAiUsage({
+        prompt_tokens: 100,
+        completion_tokens: 300,
+        total_tokens: 400,
+        completion_tokens_details: { reasoning_tokens: 256 },
+        prompt_tokens_details: { cached_tokens: 64 },
+      })
+    ).toStrictEqual({
+      inputTokens: 100,
+      outputTokens: 300,
+      totalTokens: 400,
+      thoughtsTokens: 256,
+      cachedContentTokens: 64,
+    });
+  });
+});
+
+describe('toOpenAiTool', () => {
+  const tool = {
+    name: 'createReminder',
+    description: 'Creates a reminder',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        reminder: { type: 'string' },
+        time: { type: 'string' },
+      },
+      required: ['reminder'],
+      additionalProperties: false,
+      $schema: 'http://json-schema.org/draft-07/schema#',
+    },
+  };
+
+  it('should pass the tool description through', () => {
+    expect(toOpenAiTool(tool)).toStrictEqual({
+      type: 'function',
+      function: {
+        name: 'createReminder',
+        description: 'Creates a reminder',
+        parameters: tool.inputSchema,
+      },
+    });
+  });
+
+  it('should rewrite the input schema in strict mode', () => {
+    expect(toOpenAiTool(tool, true)).toStrictEqual({
+      type: 'function',
+      function: {
+        name: 'createReminder',
+        description: 'Creates a reminder',
+        parameters: {
+          type: 'object',
+          properties: {
+            reminder: { type: 'string' },
+            time: { type: ['string', 'null'] },
+          },
+          required: ['reminder', 'time'],
+          additionalProperties: false,
+        },
+        strict: true,
+      },
+    });
+  });
+
+  it('should send tools with records without strict mode', () => {
+    const recordTool = {
+      ...tool,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tags: { type: 'object', additionalProperties: { type: 'string' } },
+        },
+      },
+    };
+    expect(toOpenAiTool(recordTool, true)).toStrictEqual({
+      type: 'function',
+      function: {
+        name: 'createReminder',
+        description: 'Creates a reminder',
+        parameters: recordTool.inputSchema,
+      },
+    });
+  });
+
+  it('should set tool_choice and parallel_tool_calls', () => {
+    const actualOutput = toOpenAiRequestBody('gpt-4o', {
+      messages: [],
+      tools: [tool],
+      config: {
+        toolChoice: { name: 'createReminder' },
+        parallelToolCalls: false,
+      },
+    });
+    expect(actualOutput.tool_choice).toStrictEqual({
+      type: 'function',
+      function: { name: 'createReminder' },
+    });
+    expect(actualOutput.parallel_tool_calls).toBe(false);
+  });
+
+  it('should restore strict tool request inputs', () => {
+    const candidate = fromStrictToolRequests(
+      {
+        index: 0,
+        finishReason: 'stop',
+        message: {
+          role: 'model',
+          content: [
+            {
+              toolRequest: {
+                name: 'createReminder',
+                ref: 'call_1',
+                input: { reminder: 'Dinner', time: null },
+              },
+            },
+          ],
+        },
+      },
+      [tool]
+    );
+    expect(candidate.message.content[0].toolRequest?.input).toStrictEqual({
+      reminder: 'Dinner',
+    });
+  });
+});
@@ -14,12 +14,12 @@
  * limitations under the License.
  */
 
-import type { CandidateData, ModelInfo } from 'genkit/model';
+import type { CandidateData, GenerationUsage, ModelInfo } from 'genkit/model';
 import type {
   StreamingCallback,
   GenerateRequest,
   GenerateResponseData,
-  Genkit,
+  MediaPart,
   MessageData,
   ModelReference,
   Part,
@@ -32,20 +32,34 @@ import type {
   ModelAction,
   ToolDefinition,
 } from 'genkit/model';
+import { extractJson } from 'genkit/extract';
 import { modelRef } from 'genkit/model';
+import { model } from 'genkit/plugin';
 import type OpenAI from 'openai';
 import {
   type ChatCompletion,
+  type ChatCompletionAudio,
   type ChatCompletionChunk,
   type ChatCompletionContentPart,
   type ChatCompletionCreateParamsNonStreaming,
   type ChatCompletionMessageParam,
   type ChatCompletionMessageToolCall,
   type ChatCompletionRole,
+  type ChatCompletionTokenLogprob,
   type ChatCompletionTool,
+  type ChatCompletionToolChoiceOption,
   type CompletionChoice,
+  type CompletionUsage,
 } from 'openai/resources/index.mjs';
 
+import {
+  fromStrictJsonOutput,
+  isObjectSchema,
+  isStrictCompatible,
+  toStrictJsonSchema,
+  withOutputInstructions,
+} from './schema.js';
+
 const MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT = [
   'gpt-4.5-preview',
   'gpt-4o',
@@ -71,6 +85,22 @@ const MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT = [
   'gpt-4.1-nano',
 ];
 
+const MODELS_SUPPORTING_STRUCTURED_OUTPUTS = [
+  'gpt-4.5-preview',
+  'gpt-4o',
+  'gpt-4o-2024-08-06',
+  'gpt-4o-2024-11-20',
+  'gpt-4o-mini',
+  'gpt-4o-mini-2024-07-18',
+  'o1',
+  'o3',
+  'o3-mini',
+  'o4-mini',
+  'gpt-4.1',
+  'gpt-4.1-mini',
+  'gpt-4.1-nano',
+];
+
 export const OpenAiConfigSchema = GenerationCommonConfigSchema.extend({
   frequencyPenalty: z.number().min(-2).max(2).optional(),
   logitBias: z.record(z.string(), z.number().min(-100).max(100)).optional(),
@@ -80,8 +110,123 @@ export const OpenAiConfigSchema = GenerationCommonConfigSchema.extend({
   topLogProbs: z.number().int().min(0).max(20).optional(),
   user: z.string().optional(),
   visualDetailLevel: z.enum(['auto', 'low', 'high']).optional(),
+  toolChoice: z
+    .union([
+      z.enum(['auto', 'none', 'required']),
+      z.object({ name: z.string() }),
+    ])
+    .optional(),
+  parallelToolCalls: z.boolean().optional(),
+  /**
+   * Sends tools with `strict: true`. Tool input schemas are rewritten into the
+   * subset supported by strict mode, with optional properties made nullable.
+   */
+  strictTools: z.boolean().optional(),
+});
+
+/**
+ * Config for the o-series reasoning models. Sampling parameters these models
+ * reject (temperature, penalties, logprobs, ...) are dropped from the request.
+ */
+export const OpenAiReasoningConfigSchema = OpenAiConfigSchema.extend({
+  reasoningEffort: z.enum(['low', 'medium', 'high']).optional(),
+});
+
+/**
+ * Config for the audio-capable chat models. Setting `audio` without
+ * `modalities` requests both text and audio.
+ */
+export const OpenAiAudioConfigSchema = OpenAiConfigSchema.extend({
+  modalities: z.array(z.enum(['text', 'audio'])).optional(),
+  audio: z
+    .object({
+      voice: z
+        .enum([
+          'alloy',
+          'ash',
+          'ballad',
+          'coral',
+          'echo',
+          'fable',
+          'onyx',
+          'nova',
+          'sage',
+          'shimmer',
+          'verse',
+        ])
+        .optional(),
+      format: z.enum(['wav', 'aac', 'mp3', 'flac', 'opus', 'pcm16']).optional(),
+    })
+    .optional(),
+});
+
+const TopLogprobSchema = z.object({
+  token: z.string(),
+  logprob: z.number(),
+  /** The UTF-8 bytes of the token, when it has a byte representation. */
+  bytes: z.array(z.number()).optional(),
+});
+
+/** The log probability of a generated token and of its likeliest alternatives. */
+export const TokenLogprobSchema = TopLogprobSchema.extend({
+  /** Requested with `topLogProbs`; empty otherwise. */
+  topLogprobs: z.array(TopLogprobSchema),
+});
+
+/**
+ * Token log probabilities of a candidate, reported as `custom.logprobs` of
+ * the candidate (and of each streamed chunk) when `logProbs` is set. `content`
+ * covers the tokens of the reply and `refusal` those of a refusal.
+ */
+export const LogprobsSchema = z.object({
+  content: z.array(TokenLogprobSchema).optional(),
+  refusal: z.array(TokenLogprobSchema).optional(),
 });
 
+export type TokenLogprob = z.infer<typeof TokenLogprobSchema>;
+export type Logprobs = z.infer<typeof LogprobsSchema>;
+
+type AudioFormat = NonNullable<
+  NonNullable<z.infer<typeof OpenAiAudioConfigSchema>['audio']>['format']
+>;
+
+const AUDIO_OUTPUT_CONTENT_TYPES: Record<AudioFormat, string> = {
+  wav: 'audio/wav',
+  aac: 'audio/aac',
+  mp3: 'audio/mpeg',
+  flac: 'audio/flac',
+  opus: 'audio/opus',
+  pcm16: 'audio/L16',
+};
+
+/**
+ * Request parameters the o-series reasoning models reject.
+ */
+export const PARAMS_UNSUPPORTED_BY_REASONING_MODELS = [
+  'temperature',
+  'top_p',
+  'frequency_penalty',
+  'presence_penalty',
+  'logit_bias',
+  'logprobs',
+  'top_logprobs',
+];
+
+/**
+ * Whether the given OpenAI model name refers to an o-series reasoning model.
+ */
+export function isReasoningModel(modelName: string): boolean {
+  return /^o\d/.test(modelName);
+}
+
+/**
+ * Returns the name of the model a fine-tune (`ft:<base>:<org>::<id>`) was
+ * trained from, or the name itself for other models.
+ */
+export function toBaseModelName(modelName: string): string {
+  return modelName.startsWith('ft:') ? modelName.split(':')[1] : modelName;
+}
+
 type VisualDetailLevel = z.infer<
   typeof OpenAiConfigSchema
 >['visualDetailLevel'];
@@ -97,6 +242,7 @@ export const gpt45 = modelRef({
       media: true,
       systemRole: true,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -113,6 +259,7 @@ export const gpt4o = modelRef({
       media: true,
       systemRole: true,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -131,11 +278,11 @@ export const o1Preview = modelRef({
       output: ['text', 'json'],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: OpenAiReasoningConfigSchema,
 });
 
 export const o1Mini = modelRef({
-  name: 'openai/o1',
+  name: 'openai/o1-mini',
   info: {
     versions: ['o1-mini'],
     label: 'OpenAI - o1 Mini',
@@ -147,7 +294,7 @@ export const o1Mini = modelRef({
       output: ['text', 'json'],
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: OpenAiReasoningConfigSchema,
 });
 
 export const o1 = modelRef({
@@ -161,9 +308,10 @@ export const o1 = modelRef({
       media: true,
       systemRole: false,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: OpenAiReasoningConfigSchema,
 });
 
 export const o3 = modelRef({
@@ -177,9 +325,10 @@ export const o3 = modelRef({
       media: true,
       systemRole: false,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: OpenAiReasoningConfigSchema,
 });
 
 export const o3Mini = modelRef({
@@ -193,9 +342,10 @@ export const o3Mini = modelRef({
       media: false,
       systemRole: false,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: OpenAiReasoningConfigSchema,
 });
 
 export const o4Mini = modelRef({
@@ -209,9 +359,10 @@ export const o4Mini = modelRef({
       media: true,
       systemRole: false,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
-  configSchema: OpenAiConfigSchema,
+  configSchema: OpenAiReasoningConfigSchema,
 });
 
 export const gpt4oMini = modelRef({
@@ -225,11 +376,47 @@ export const gpt4oMini = modelRef({
       media: true,
       systemRole: true,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
   configSchema: OpenAiConfigSchema,
 });
 
+export const gpt4oAudioPreview = modelRef({
+  name: 'openai/gpt-4o-audio-preview',
+  info: {
+    versions: ['gpt-4o-audio-preview', 'gpt-4o-audio-preview-2024-12-17'],
+    label: 'OpenAI - GPT-4o Audio Preview',
+    supports: {
+      multiturn: true,
+      tools: true,
+      media: true,
+      systemRole: true,
+      output: ['text', 'media'],
+    },
+  },
+  configSchema: OpenAiAudioConfigSchema,
+});
+
+export const gpt4oMiniAudioPreview = modelRef({
+  name: 'openai/gpt-4o-mini-audio-preview',
+  info: {
+    versions: [
+      'gpt-4o-mini-audio-preview',
+      'gpt-4o-mini-audio-preview-2024-12-17',
+    ],
+    label: 'OpenAI - GPT-4o mini Audio Preview',
+    supports: {
+      multiturn: true,
+      tools: true,
+      media: true,
+      systemRole: true,
+      output: ['text', 'media'],
+    },
+  },
+  configSchema: OpenAiAudioConfigSchema,
+});
+
 export const gpt4Turbo = modelRef({
   name: 'openai/gpt-4-turbo',
   info: {
@@ -295,6 +482,7 @@ export const gpt41 = modelRef({
       media: true,
       systemRole: true,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -311,6 +499,7 @@ export const gpt41Mini = modelRef({
       media: true,
       systemRole: true,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -327,6 +516,7 @@ export const gpt41Nano = modelRef({
       media: true,
       systemRole: true,
       output: ['text', 'json'],
+      constrained: 'all',
     },
   },
   configSchema: OpenAiConfigSchema,
@@ -350,11 +540,17 @@ export const gpt35Turbo = modelRef({
 
 export const SUPPORTED_GPT_MODELS: Record<
   string,
-  ModelReference<typeof OpenAiConfigSchema>
+  ModelReference<
+    | typeof OpenAiConfigSchema
+    | typeof OpenAiReasoningConfigSchema
+    | typeof OpenAiAudioConfigSchema
+  >
 > = {
   'gpt-4.5': gpt45,
   'gpt-4o': gpt4o,
   'gpt-4o-mini': gpt4oMini,
+  'gpt-4o-audio-preview': gpt4oAudioPreview,
+  'gpt-4o-mini-audio-preview': gpt4oMiniAudioPreview,
   'gpt-4-turbo': gpt4Turbo,
   'gpt-4-vision': gpt4Vision,
   'gpt-4': gpt4,
@@ -388,28 +584,169 @@ export function toOpenAIRole(role: Role): ChatCompletionRole {
 /**
  * Converts a Genkit ToolDefinition to an OpenAI ChatCompletionTool object.
  * @param tool The Genkit ToolDefinition to convert.
+ * @param strict Whether to send the tool in strict function-calling mode, if
+ * strict mode can enforce its input schema.
  * @returns The converted OpenAI ChatCompletionTool object.
  */
-function toOpenAiTool(tool: ToolDefinition): ChatCompletionTool {
+export function toOpenAiTool(
+  tool: ToolDefinition,
+  strict = false
+): ChatCompletionTool {
+  const parameters = tool.inputSchema !== null ? tool.inputSchema : undefined;
+  const strictTool = strict && !!parameters && isStrictCompatible(parameters);
   return {
     type: 'function',
     function: {
       name: tool.name,
-      parameters: tool.inputSchema !== null ? tool.inputSchema : undefined,
+      description: tool.description || undefined,
+      parameters: strictTool ? toStrictJsonSchema(parameters) : parameters,
+      ...(strictTool ? { strict: true } : {}),
+    },
+  };
+}
+
+/**
+ * Converts the Genkit tool choice config to an OpenAI tool_choice option.
+ * @param toolChoice The tool choice from the request config.
+ * @returns The corresponding OpenAI tool_choice option.
+ */
+function toOpenAiToolChoice(
+  toolChoice: z.infer<typeof OpenAiConfigSchema>['toolChoice']
+): ChatCompletionToolChoiceOption | undefined {
+  if (typeof toolChoice === 'object') {
+    return { type: 'function', function: { name: toolChoice.name } };
+  }
+  return toolChoice;
+}
+
+/**
+ * Reverses the strict-mode rewrite on the inputs of tool requests, so that
+ * they validate against the original tool input schemas.
+ * @param candidate The candidate containing the tool requests.
+ * @param tools The tools sent with the request.
+ * @returns The candidate with the tool request inputs restored.
+ */
+export function fromStrictToolRequests(
+  candidate: CandidateData,
+  tools: ToolDefinition[] = []
+): CandidateData {
+  return {
+    ...candidate,
+    message: {
+      ...candidate.message,
+      content: candidate.message.content.map((part) => {
+        const tool = tools.find((t) => t.name === part.toolRequest?.name);
+        return part.toolRequest && tool
+          ? {
+              ...part,
+              toolRequest: {
+                ...part.toolRequest,
+                input: fromStrictJsonOutput(
+                  part.toolRequest.input,
+                  tool.inputSchema ?? undefined
+                ),
+              },
+            }
+          : part;
+      }),
     },
   };
 }
 
+const AUDIO_INPUT_FORMATS: Record<string, 'wav' | 'mp3'> = {
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mp3': 'mp3',
+  'audio/mpeg': 'mp3',
+};
+
+/**
+ * Splits a base64 data URL into its content type and payload.
+ * @param url The URL to split.
+ * @returns The content type and base64 payload, or undefined if the URL is not a base64 data URL.
+ */
+function parseDataUrl(
+  url: string
+): { contentType: string; data: string } | undefined {
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/.exec(url);
+  return match ? { contentType: match[1], data: match[2] } : undefined;
+}
+
+/**
+ * Converts a Genkit media part to the OpenAI content part for its content
+ * type: images are sent as `image_url`, wav and mp3 audio as `input_audio`
+ * and PDFs as `file`. Media without a content type is treated as an image.
+ * @param part The Genkit media part to convert.
+ * @param visualDetailLevel The visual detail level to use for images.
+ * @param modelName The name of the model the request is sent to.
+ * @returns The corresponding OpenAI ChatCompletionContentPart.
+ * @throws Error if the content type is not supported as input.
+ */
+function toOpenAiMedia(
+  part: MediaPart,
+  visualDetailLevel: VisualDetailLevel,
+  modelName?: string
+): ChatCompletionContentPart {
+  const { url } = part.media;
+  const dataUrl = parseDataUrl(url);
+  const contentType = (
+    part.media.contentType ?? dataUrl?.contentType
+  )?.toLowerCase();
+  const forModel = modelName ? ` for model ${modelName}` : '';
+
+  if (!contentType || contentType.startsWith('image/')) {
+    return {
+      type: 'image_url',
+      image_url: {
+        url,
+        detail: visualDetailLevel,
+      },
+    };
+  }
+  if (contentType in AUDIO_INPUT_FORMATS) {
+    if (!dataUrl) {
+      throw new Error(
+        `Audio input${forModel} must be provided as a base64 data URL, got media of type ${contentType}.`
+      );
+    }
+    return {
+      type: 'input_audio',
+      input_audio: {
+        data: dataUrl.data,
+        format: AUDIO_INPUT_FORMATS[contentType],
+      },
+    };
+  }
+  if (contentType === 'application/pdf') {
+    if (!dataUrl) {
+      throw new Error(
+        `File input${forModel} must be provided as a base64 data URL, got media of type ${contentType}.`
+      );
+    }
+    return {
+      type: 'file',
+      file: {
+        file_data: url,
+        filename: (part.metadata?.filename as string) ?? 'file.pdf',
+      },
+    };
+  }
+  throw new Error(`Unsupported media type ${contentType}${forModel}.`);
+}
+
 /**
  * Converts a Genkit Part to the corresponding OpenAI ChatCompletionContentPart.
  * @param part The Genkit Part to convert.
  * @param visualDetailLevel The visual detail level to use for media parts.
+ * @param modelName The name of the model, used in error messages.
  * @returns The corresponding OpenAI ChatCompletionContentPart.
  * @throws Error if the part contains unsupported fields for the current message role.
  */
 export function toOpenAiTextAndMedia(
   part: Part,
-  visualDetailLevel: VisualDetailLevel
+  visualDetailLevel: VisualDetailLevel,
+  modelName?: string
 ): ChatCompletionContentPart {
   if (part.text) {
     return {
@@ -417,13 +754,7 @@ export function toOpenAiTextAndMedia(
       text: part.text,
     };
   } else if (part.media) {
-    return {
-      type: 'image_url',
-      image_url: {
-        url: part.media.url,
-        detail: visualDetailLevel,
-      },
-    };
+    return toOpenAiMedia(part as MediaPart, visualDetailLevel, modelName);
   }
   throw Error(
     `Unsupported genkit part fields encountered for current message role: ${JSON.stringify(part)}.`
@@ -434,11 +765,13 @@ export function toOpenAiTextAndMedia(
  * Converts a Genkit MessageData array to an OpenAI ChatCompletionMessageParam array.
  * @param messages The Genkit MessageData array to convert.
  * @param visualDetailLevel The visual detail level to use for media parts.
+ * @param modelName The name of the model, used in error messages.
  * @returns The converted OpenAI ChatCompletionMessageParam array.
  */
 export function toOpenAiMessages(
   messages: MessageData[],
-  visualDetailLevel: VisualDetailLevel = 'auto'
+  visualDetailLevel: VisualDetailLevel = 'auto',
+  modelName?: string
 ): ChatCompletionMessageParam[] {
   const openAiMsgs: ChatCompletionMessageParam[] = [];
   for (const message of messages) {
@@ -447,7 +780,7 @@ export function toOpenAiMessages(
     switch (role) {
       case 'user':
         const content = msg.content.map((part) =>
-          toOpenAiTextAndMedia(part, visualDetailLevel)
+          toOpenAiTextAndMedia(part, visualDetailLevel, modelName)
         );
         // Check if we have only text content
         const onlyTextContent = content.some((item) => item.type !== 'text');
@@ -495,6 +828,7 @@ export function toOpenAiMessages(
         if (toolCalls.length > 0) {
           openAiMsgs.push({
             role: role,
+            ...(msg.text ? { content: msg.text } : {}),
             tool_calls: toolCalls,
           });
         } else {
@@ -553,13 +887,24 @@ export function fromOpenAiToolCall(
   }
   const f = toolCall.function;
 
-  // Only parse arugments when it is a JSON object and the finish reason is tool_calls to avoid parsing errors
-  if (choice.finish_reason === 'tool_calls') {
+  // Only parse arguments once they are complete: either the choice is a full
+  // message or the stream finished with tool_calls. Streamed fragments are
+  // assembled by OpenAiStreamAccumulator instead.
+  if ('message' in choice || choice.finish_reason === 'tool_calls') {
+    let input: unknown = f.arguments;
+    if (f.arguments) {
+      try {
+        input = JSON.parse(f.arguments);
+      } catch {
+        // Arguments cut off by finish_reason 'length' are not valid JSON, so
+        // they are passed on as the raw string
+      }
+    }
     return {
       toolRequest: {
         name: f.name!,
         ref: toolCall.id,
-        input: f.arguments ? JSON.parse(f.arguments) : f.arguments,
+        input,
       },
     };
   } else {
@@ -573,16 +918,101 @@ export function fromOpenAiToolCall(
   }
 }
 
+/**
+ * Converts the audio of an OpenAI message to a Genkit media part, followed by
+ * its transcript as a text part.
+ * @param audio The audio returned by the model.
+ * @param format The audio format that was requested.
+ * @returns The converted Genkit parts.
+ */
+function fromOpenAiAudio(
+  audio: ChatCompletionAudio,
+  format: AudioFormat
+): Part[] {
+  const contentType = AUDIO_OUTPUT_CONTENT_TYPES[format];
+  return [
+    {
+      media: {
+        contentType,
+        url: `data:${contentType};base64,${audio.data}`,
+      },
+      metadata: { audioId: audio.id, expiresAt: audio.expires_at },
+    },
+    { text: audio.transcript },
+  ];
+}
+
+function fromOpenAiTopLogprob({
+  token,
+  logprob,
+  bytes,
+}: ChatCompletionTokenLogprob.TopLogprob): z.infer<typeof TopLogprobSchema> {
+  return bytes ? { token, logprob, bytes } : { token, logprob };
+}
+
+/**
+ * Converts the logprobs of an OpenAI choice to the `custom` data of a Genkit
+ * candidate or chunk.
+ * @param logprobs The logprobs of the choice, if they were requested.
+ * @returns `{ logprobs }` in the documented Genkit structure, or an empty
+ * object when there are none.
+ */
+export function fromOpenAiLogprobs(
+  logprobs?: ChatCompletion.Choice.Logprobs | null
+): { logprobs?: Logprobs } {
+  if (!logprobs?.content && !logprobs?.refusal) return {};
+  const convert = (tokens: ChatCompletionTokenLogprob[]) =>
+    tokens.map((token) => ({
+      ...fromOpenAiTopLogprob(token),
+      topLogprobs: token.top_logprobs.map(fromOpenAiTopLogprob),
+    }));
+  return {
+    logprobs: {
+      ...(logprobs.content && { content: convert(logprobs.content) }),
+      ...(logprobs.refusal && { refusal: convert(logprobs.refusal) }),
+    },
+  };
+}
+
 /**
  * Converts an OpenAI message event to a Genkit CandidateData object.
+ * Refusals are reported as a `blocked` candidate with the refusal message.
+ * Requested token logprobs are reported as `custom.logprobs`.
  * @param choice The OpenAI message event to convert.
  * @param jsonMode Whether the event is a JSON response.
+ * @param outputSchema The requested output schema, if it was sent in strict mode.
+ * @param audioFormat The requested audio output format, used for the content type of audio parts.
  * @returns The converted Genkit CandidateData object.
  */
 export function fromOpenAiChoice(
   choice: ChatCompletion.Choice,
-  jsonMode = false
+  jsonMode = false,
+  outputSchema?: Record<string, any>,
+  audioFormat: AudioFormat = 'wav'
 ): CandidateData {
+  if (choice.message.refusal) {
+    return {
+      index: choice.index,
+      finishReason: 'blocked',
+      finishMessage: choice.message.refusal,
+      message: {
+        role: 'model',
+        content: [],
+      },
+      custom: fromOpenAiLogprobs(choice.logprobs),
+    };
+  }
+  if (choice.message.audio) {
+    return {
+      index: choice.index,
+      finishReason: finishReasonMap[choice.finish_reason] || 'other',
+      message: {
+        role: 'model',
+        content: fromOpenAiAudio(choice.message.audio, audioFormat),
+      },
+      custom: fromOpenAiLogprobs(choice.logprobs),
+    };
+  }
   const toolRequestParts = choice.message.tool_calls?.map((toolCall) =>
     fromOpenAiToolCall(toolCall, choice)
   );
@@ -597,16 +1027,22 @@ export function fromOpenAiChoice(
           (toolRequestParts as ToolRequestPart[])
         : [
             jsonMode
-              ? { data: JSON.parse(choice.message.content!) }
+              ? {
+                  data: fromStrictJsonOutput(
+                    extractJson(choice.message.content!),
+                    outputSchema
+                  ),
+                }
               : { text: choice.message.content! },
           ],
     },
-    custom: {},
+    custom: fromOpenAiLogprobs(choice.logprobs),
   };
 }
 
 /**
  * Converts an OpenAI message stream event to a Genkit CandidateData object.
+ * Requested token logprobs are reported as `custom.logprobs`.
  * @param choice The OpenAI message stream event to convert.
  * @param jsonMode Whether the event is a JSON response.
  * @returns The converted Genkit CandidateData object.
@@ -631,11 +1067,142 @@ export function fromOpenAiChunkChoice(
           (toolRequestParts as ToolRequestPart[])
         : [
             jsonMode
-              ? { data: JSON.parse(choice.delta.content!) }
+              ? { data: extractJson(choice.delta.content ?? '') }
               : { text: choice.delta.content! },
           ],
     },
-    custom: {},
+    custom: fromOpenAiLogprobs(choice.logprobs),
+  };
+}
+
+interface BufferedToolCall {
+  id?: string;
+  name?: string;
+  arguments: string;
+}
+
+/**
+ * Assembles OpenAI chat completion stream chunks into well-formed Genkit
+ * chunks. Tool call argument fragments are buffered by choice and tool call
+ * index, and every fragment emits the tool request parsed so far, flagged
+ * with `metadata.partial`. Once the choice finishes, the completed tool
+ * requests are emitted without the flag. In JSON mode, text deltas are
+ * accompanied by a data part holding the JSON assembled so far. Token
+ * logprobs, when requested, are reported as `custom.logprobs` of the chunk
+ * that carries them. Audio deltas are buffered by choice, and their transcript
+ * is emitted as text.
+ */
+export class OpenAiStreamAccumulator {
+  private readonly text = new Map<number, string>();
+  private readonly toolCalls = new Map<number, Map<number, BufferedToolCall>>();
+  private readonly audio = new Map<number, ChatCompletionAudio>();
+
+  constructor(private readonly jsonMode = false) {}
+
+  /**
+   * Adds a streamed choice to the accumulator.
+   * @param choice The OpenAI chunk choice to add.
+   * @returns The Genkit chunk to emit, or undefined if the choice carries no
+   * content or logprobs.
+   */
+  add(
+    choice: ChatCompletionChunk.Choice
+  ): GenerateResponseChunkData | undefined {
+    const index = choice.index ?? 0;
+    const content: Part[] = [];
+    const delta = choice.delta?.content;
+    if (delta) {
+      content.push({ text: delta });
+      if (this.jsonMode) {
+        const text = (this.text.get(index) ?? '') + delta;
+        this.text.set(index, text);
+        const data = extractJson(text);
+        if (data !== null) content.push({ data });
+      }
+    }
+    const audio = (
+      choice.delta as { audio?: Partial<ChatCompletionAudio> } | undefined
+    )?.audio;
+    if (audio) {
+      const current = this.audio.get(index) ?? {
+        id: '',
+        data: '',
+        expires_at: 0,
+        transcript: '',
+      };
+      current.id = audio.id ?? current.id;
+      current.expires_at = audio.expires_at ?? current.expires_at;
+      current.data += audio.data ?? '';
+      current.transcript += audio.transcript ?? '';
+      this.audio.set(index, current);
+      if (audio.transcript) content.push({ text: audio.transcript });
+    }
+    const buffered = this.toolCalls.get(index) ?? new Map();
+    this.toolCalls.set(index, buffered);
+    for (const toolCall of choice.delta?.tool_calls ?? []) {
+      const current: BufferedToolCall = buffered.get(toolCall.index) ?? {
+        arguments: '',
+      };
+      current.id = toolCall.id ?? current.id;
+      current.name = toolCall.function?.name ?? current.name;
+      current.arguments += toolCall.function?.arguments ?? '';
+      buffered.set(toolCall.index, current);
+      if (!choice.finish_reason) {
+        content.push(toBufferedToolRequestPart(current, true));
+      }
+    }
+    if (choice.finish_reason) {
+      buffered.forEach((toolCall) =>
+        content.push(toBufferedToolRequestPart(toolCall, false))
+      );
+      this.toolCalls.delete(index);
+    }
+    const custom = fromOpenAiLogprobs(choice.logprobs);
+    if (custom.logprobs) return { index, content, custom };
+    return content.length ? { index, content } : undefined;
+  }
+
+  /**
+   * Returns the audio streamed for a choice, as the SDK only keeps the last
+   * audio delta of each choice in the final completion.
+   * @param index The index of the choice.
+   * @returns The assembled audio, or undefined if none was streamed.
+   */
+  audioOf(index: number): ChatCompletionAudio | undefined {
+    return this.audio.get(index);
+  }
+}
+
+function toBufferedToolRequestPart(
+  toolCall: BufferedToolCall,
+  partial: boolean
+): ToolRequestPart {
+  const part: ToolRequestPart = {
+    toolRequest: {
+      name: toolCall.name!,
+      ref: toolCall.id,
+      input: toolCall.arguments
+        ? (extractJson(toolCall.arguments) ?? {})
+        : toolCall.arguments,
+    },
+  };
+  return partial ? { ...part, metadata: { partial: true } } : part;
+}
+
+/**
+ * Converts OpenAI token usage to Genkit usage. Reasoning tokens are reported
+ * as `thoughtsTokens` and cached prompt tokens as `cachedContentTokens`; both
+ * are already included in the output and input token counts respectively.
+ * @param usage The OpenAI token usage to convert.
+ * @returns The converted Genkit usage.
+ */
+export function fromOpenAiUsage(usage?: CompletionUsage): GenerationUsage {
+  return {
+    inputTokens: usage?.prompt_tokens,
+    outputTokens: usage?.completion_tokens,
+    totalTokens: usage?.total_tokens,
+    thoughtsTokens: usage?.completion_tokens_details?.reasoning_tokens,
+    cachedContentTokens: usage?.prompt_tokens_details?.cached_tokens,
   };
 }
 
@@ -643,20 +1210,48 @@ export function fromOpenAiChunkChoice(
  * Converts an OpenAI request to an OpenAI API request body.
  * @param modelName The name of the OpenAI model to use.
  * @param request The Genkit GenerateRequest to convert.
+ * @param declaredModel The reference of a model that is not built in, such as
+ * a fine-tune or a model served by an OpenAI-compatible server. Its declared
+ * capabilities are used instead of the built-in tables of OpenAI models.
  * @returns The converted OpenAI API request body.
  * @throws An error if the specified model is not supported or if an unsupported output format is requested.
  */
 export function toOpenAiRequestBody(
   modelName: string,
-  request: GenerateRequest<typeof OpenAiConfigSchema>
+  request: GenerateRequest<typeof OpenAiConfigSchema>,
+  declaredModel?: ModelReference<z.ZodTypeAny>
 ) {
-  const model = SUPPORTED_GPT_MODELS[modelName];
+  const model = declaredModel ?? SUPPORTED_GPT_MODELS[modelName];
   if (!model) throw new Error(`Unsupported model: ${modelName}`);
+  const mappedModelName = request.config?.version || model.version || modelName;
+  const baseModelName = toBaseModelName(mappedModelName);
+  const supportsResponseFormat = declaredModel
+    ? true
+    : MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT.includes(baseModelName);
+  const supportsStructuredOutputs = declaredModel
+    ? ['all', 'no-tools'].includes(
+        declaredModel.info?.supports?.constrained ?? 'none'
+      )
+    : MODELS_SUPPORTING_STRUCTURED_OUTPUTS.includes(baseModelName);
+  const response_format = request.output?.format;
+  const jsonOutput =
+    response_format === 'json' &&
+    supportsResponseFormat &&
+    !!model.info?.supports?.output?.includes('json');
+  const strictOutput =
+    jsonOutput &&
+    !!request.output?.schema &&
+    supportsStructuredOutputs &&
+    isStrictCompatible(request.output.schema);
   const openAiMessages = toOpenAiMessages(
-    request.messages,
-    request.config?.visualDetailLevel
+    // Genkit does not add the output instructions for models that declare
+    // constrained output, which JSON mode still needs
+    jsonOutput && !strictOutput
+      ? withOutputInstructions(request.messages, request.output?.schema)
+      : request.messages,
+    request.config?.visualDetailLevel,
+    modelName
   );
-  const mappedModelName = request.config?.version || model.version || modelName;
   const body = {
     model: mappedModelName,
     messages: openAiMessages,
@@ -671,22 +1266,64 @@ export function toOpenAiRequestBody(
     seed: request.config?.seed,
     top_logprobs: request.config?.topLogProbs, // logprobs not snake case!
     user: request.config?.user,
-    tools: request.tools?.map(toOpenAiTool),
+    tools: request.tools?.map((tool) =>
+      toOpenAiTool(tool, request.config?.strictTools)
+    ),
+    tool_choice: request.tools?.length
+      ? toOpenAiToolChoice(request.config?.toolChoice)
+      : undefined,
+    parallel_tool_calls: request.tools?.length
+      ? request.config?.parallelToolCalls
+      : undefined,
     n: request.candidates,
   } as ChatCompletionCreateParamsNonStreaming;
 
-  const response_format = request.output?.format;
-  if (
-    response_format &&
-    MODELS_SUPPORTING_OPENAI_RESPONSE_FORMAT.includes(mappedModelName)
-  ) {
-    if (
-      response_format === 'json' &&
-      model.info?.supports?.output?.includes('json')
-    ) {
-      body.response_format = {
-        type: 'json_object',
+  if (isReasoningModel(baseModelName)) {
+    // Reasoning models take max_completion_tokens instead of max_tokens
+    body.max_completion_tokens = body.max_tokens;
+    delete body.max_tokens;
+    body.reasoning_effort = (
+      request.config as z.infer<typeof OpenAiReasoningConfigSchema> | undefined
+    )?.reasoningEffort;
+    for (const key of PARAMS_UNSUPPORTED_BY_REASONING_MODELS) {
+      delete body[key];
+    }
+  }
+
+  const { modalities, audio } = (request.config ?? {}) as z.infer<
+    typeof OpenAiAudioConfigSchema
+  >;
+  const outputModalities =
+    modalities ?? (audio ? ['text', 'audio'] : undefined);
+  if (outputModalities) {
+    body.modalities = outputModalities;
+    if (outputModalities.includes('audio')) {
+      body.audio = {
+        voice: audio?.voice ?? 'alloy',
+        format: audio?.format ?? 'wav',
       };
+    }
+  }
+
+  if (response_format && supportsResponseFormat) {
+    if (jsonOutput) {
+      if (request.output?.schema && strictOutput) {
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: {
+            name: 'output',
+            schema: toStrictJsonSchema(request.output.schema),
+            strict: true,
+          },
+        };
+      } else if (
+        !request.output?.schema ||
+        isObjectSchema(request.output.schema)
+      ) {
+        body.response_format = { type: 'json_object' };
+      }
+      // JSON mode only replies with objects, so other roots rely on the
+      // output instructions alone
     } else if (
       response_format === 'text' &&
       model.info?.supports?.output?.includes('text')
@@ -701,96 +1338,224 @@ export function toOpenAiRequestBody(
     }
   }
   for (const key in body) {
-    if (!body[key] || (Array.isArray(body[key]) && !body[key].length))
+    if (
+      body[key] === undefined ||
+      body[key] === null ||
+      (Array.isArray(body[key]) && !body[key].length)
+    )
       delete body[key];
   }
   return body;
 }
 
+/**
+ * Converts a chat completion into a Genkit response.
+ * @param response The chat completion returned by the API.
+ * @param request The Genkit request the completion answers.
+ * @param body The request body that was sent, as built by `toOpenAiRequestBody`.
+ * @returns The Genkit response, with the completion as custom data. Requested
+ * logprobs are reported per candidate, and those of the first candidate also
+ * as `custom.logprobs` of the response.
+ */
+export function fromOpenAiCompletion(
+  response: ChatCompletion,
+  request: GenerateRequest<typeof OpenAiConfigSchema>,
+  body: ReturnType<typeof toOpenAiRequestBody>
+): GenerateResponseData {
+  const strictSchema =
+    body.response_format?.type === 'json_schema'
+      ? request.output?.schema
+      : undefined;
+  const candidates = response.choices.map((c) => {
+    const candidate = fromOpenAiChoice(
+      c,
+      request.output?.format === 'json',
+      strictSchema,
+      body.audio?.format
+    );
+    return request.config?.strictTools
+      ? fromStrictToolRequests(candidate, request.tools)
+      : candidate;
+  });
+  // Genkit only keeps the response-level custom data, so the logprobs of the
+  // first candidate are copied next to the completion
+  const logprobs = (candidates[0]?.custom as { logprobs?: Logprobs })?.logprobs;
+  return {
+    candidates,
+    usage: fromOpenAiUsage(response.usage),
+    custom: logprobs ? { ...response, logprobs } : response,
+  };
+}
+
 /**
  * Creates the runner used by Genkit to interact with the GPT model.
  * @param name The name of the GPT model.
  * @param client The OpenAI client instance.
+ * @param declaredModel The reference of a model that is not built in, if any.
  * @returns The runner that Genkit will call when the model is invoked.
  */
-export function gptRunner(name: string, client: OpenAI) {
+export function gptRunner(
+  name: string,
+  client: OpenAI,
+  declaredModel?: ModelReference<z.ZodTypeAny>
+) {
   return async (
     request: GenerateRequest<typeof OpenAiConfigSchema>,
-    streamingCallback?: StreamingCallback<GenerateResponseChunkData>
+    {
+      streamingRequested,
+      sendChunk,
+      abortSignal,
+    }: {
+      streamingRequested: boolean;
+      sendChunk: StreamingCallback<GenerateResponseChunkData>;
+      abortSignal: AbortSignal;
+    }
   ): Promise<GenerateResponseData> => {
     let response: ChatCompletion;
-    const body = toOpenAiRequestBody(name, request);
-    if (streamingCallback) {
-      const stream = client.beta.chat.completions.stream({
-        ...body,
-        stream: true,
-        stream_options: {
-          include_usage: true,
+    const body = toOpenAiRequestBody(name, request, declaredModel);
+    if (streamingRequested && body.audio) {
+      // Audio output is only streamed as pcm16
+      const format = (
+        request.config as z.infer<typeof OpenAiAudioConfigSchema> | undefined
+      )?.audio?.format;
+      if (format && format !== 'pcm16') {
+        throw new Error(
+          `Streaming audio output requires the pcm16 format, got ${format}.`
+        );
+      }
+      body.audio.format = 'pcm16';
+    }
+    if (streamingRequested) {
+      const stream = client.beta.chat.completions.stream(
+        {
+          ...body,
+          stream: true,
+          stream_options: {
+            include_usage: true,
+          },
         },
-      });
+        { signal: abortSignal }
+      );
+      const accumulator = new OpenAiStreamAccumulator(
+        request.output?.format === 'json'
+      );
       for await (const chunk of stream) {
-        chunk.choices?.forEach((chunk) => {
-          const c = fromOpenAiChunkChoice(chunk);
-          streamingCallback({
-            index: c.index,
-            content: c.message.content,
-          });
+        chunk.choices?.forEach((choice) => {
+          const c = accumulator.add(choice);
+          if (c) sendChunk(c);
         });
       }
       response = await stream.finalChatCompletion();
+      response.choices.forEach((choice) => {
+        const audio = accumulator.audioOf(choice.index);
+        if (audio) choice.message.audio = audio;
+      });
     } else {
-      response = await client.chat.completions.create(body);
+      response = await client.chat.completions.create(body, {
+        signal: abortSignal,
+      });
     }
-    return {
-      candidates: response.choices.map((c) =>
-        fromOpenAiChoice(c, request.output?.format === 'json')
-      ),
-      usage: {
-        inputTokens: response.usage?.prompt_tokens,
-        outputTokens: response.usage?.completion_tokens,
-        totalTokens: response.usage?.total_tokens,
-      },
-      custom: response,
-    };
+    return fromOpenAiCompletion(response, request, body);
   };
 }
 
 /**
- * Defines a GPT model with the given name and OpenAI client.
+ * Finds the built-in model a chat model is based on, by its name or one of
+ * its versions, e.g. `gpt-4o-mini` for `ft:gpt-4o-mini-2024-07-18:org::id`.
+ * @param name The name of the OpenAI model.
+ * @returns The reference of the base model, if it is built in.
+ */
+export function findBaseGptModelRef(
+  name: string
+): (typeof SUPPORTED_GPT_MODELS)[string] | undefined {
+  const baseName = toBaseModelName(name);
+  return Object.entries(SUPPORTED_GPT_MODELS).find(
+    ([key, ref]) => key === baseName || ref.info?.versions?.includes(baseName)
+  )?.[1];
+}
+
+/**
+ * Infers a model reference for a chat model that is not built in, such as a
+ * fine-tune (`ft:gpt-4o-mini-2024-07-18:org::id`). Capabilities and config
+ * schema are taken from the built-in model it is based on, if there is one;
+ * constrained output only if the version it names supports structured outputs.
+ * @param name The name of the OpenAI model.
+ * @returns The inferred model reference.
+ */
+export function inferGptModelRef(
+  name: string
+): ModelReference<
+  typeof OpenAiConfigSchema | typeof OpenAiReasoningConfigSchema
+> {
+  const baseName = toBaseModelName(name);
+  const base = findBaseGptModelRef(name);
+  const reasoning = isReasoningModel(baseName);
+  // Older snapshots of a model may predate its support for structured outputs
+  const { constrained, ...baseSupports } = base?.info?.supports ?? {};
+  return modelRef({
+    name: `openai/${name}`,
+    info: {
+      label: `OpenAI - ${name}`,
+      supports: base?.info?.supports
+        ? {
+            ...baseSupports,
+            ...(constrained &&
+            MODELS_SUPPORTING_STRUCTURED_OUTPUTS.includes(baseName)
+              ? { constrained }
+              : {}),
+          }
+        : {
+            multiturn: true,
+            tools: true,
+            media: false,
+            systemRole: !reasoning,
+            output: ['text', 'json'],
+          },
+    },
+    configSchema:
+      base?.configSchema ??
+      (reasoning ? OpenAiReasoningConfigSchema : OpenAiConfigSchema),
+  });
+}
+
+/**
+ * Defines a GPT model with the given name and OpenAI client. Models that are
+ * not built in are defined with the given info, or with capabilities
+ * inferred by `inferGptModelRef`; their reference stays local to the model.
  * @param name The name of the GPT model.
  * @param client The OpenAI client instance.
  * @returns The defined GPT model.
- * @throws An error if the specified model is not supported.
  */
 export function gptModel(
-  ai: Genkit,
   name: string,
   client: OpenAI,
   modelInfo?: ModelInfo,
   modelConfig?: any
 ): ModelAction<typeof OpenAiConfigSchema> {
   const modelId = `openai/${name}`;
-  const model = SUPPORTED_GPT_MODELS[name];
-  if (!model) {
-    SUPPORTED_GPT_MODELS[name] = modelRef({
-      name: modelId,
-      info: modelInfo,
-      configSchema: modelConfig?.configSchema,
-    });
-  }
+  const builtIn = SUPPORTED_GPT_MODELS[name];
+  const ref =
+    builtIn ??
+    (modelInfo
+      ? modelRef({
+          name: modelId,
+          info: modelInfo,
+          configSchema: modelConfig?.configSchema,
+        })
+      : inferGptModelRef(name));
 
   // Use the built-in model info and config schema or override if provided
-  const modelInformation = modelInfo ? modelInfo : model.info;
+  const modelInformation = modelInfo ? modelInfo : ref.info;
   const configSchema = modelConfig
     ? modelConfig.configSchema
-    : model.configSchema;
+    : ref.configSchema;
 
-  return ai.defineModel(
+  return model(
     {
       name: modelId,
       ...modelInformation,
       configSchema,
     },
-    gptRunner(name, client)
+    gptRunner(name, client, builtIn ? undefined : ref)
   );
 }
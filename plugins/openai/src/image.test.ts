@@ -0,0 +1,223 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import type { GenerateRequest } from 'genkit';
+import type OpenAI from 'openai';
+
+import {
+  ImageConfigSchema,
+  imageRunner,
+  toImageGenerateResponse,
+  toImageInputs,
+  toImageParams,
+} from './image';
+
+const PNG_DATA_URL = `data:image/png;base64,${Buffer.from('png').toString('base64')}`;
+
+function fakeClient() {
+  const result = { created: 0, data: [{ b64_json: 'aW1n' }] };
+  const images = {
+    generate: jest.fn(async (_body: any, _options?: any) => result),
+    edit: jest.fn(async (_body: any, _options?: any) => result),
+    createVariation: jest.fn(async (_body: any, _options?: any) => result),
+  };
+  return { client: { images } as unknown as OpenAI, images };
+}
+
+const abortSignal = new AbortController().signal;
+
+describe('toImageInputs', () => {
+  it('should split the prompt, images and mask', () => {
+    const request: GenerateRequest = {
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { text: 'Add a hat' },
+            { media: { url: PNG_DATA_URL } },
+            { media: { url: PNG_DATA_URL }, metadata: { mask: true } },
+          ],
+        },
+      ],
+    };
+    const inputs = toImageInputs(request);
+    expect(inputs.prompt).toBe('Add a hat');
+    expect(inputs.images).toHaveLength(1);
+    expect(inputs.mask?.metadata).toStrictEqual({ mask: true });
+  });
+});
+
+describe('toImageParams', () => {
+  it('should request base64 data from dall-e-2 by default', () => {
+    expect(
+      toImageParams('dall-e-2', {
+        messages: [],
+        config: { size: '512x512' },
+      })
+    ).toStrictEqual({
+      model: 'dall-e-2',
+      n: 1,
+      size: '512x512',
+      response_format: 'b64_json',
+    });
+  });
+
+  it('should pass the gpt-image-1 options through', () => {
+    expect(
+      toImageParams('gpt-image-1', {
+        messages: [],
+        config: {
+          background: 'transparent',
+          output_format: 'webp',
+          output_compression: 80,
+          quality: 'high',
+          temperature: 1,
+        },
+      })
+    ).toStrictEqual({
+      model: 'gpt-image-1',
+      n: 1,
+      background: 'transparent',
+      output_format: 'webp',
+      output_compression: 80,
+      quality: 'high',
+    });
+  });
+});
+
+describe('toImageGenerateResponse', () => {
+  it('should use the content type of the output format', () => {
+    const response = toImageGenerateResponse(
+      {
+        created: 0,
+        data: [{ b64_json: 'aW1n' }, { b64_json: 'aW1nMg==' }],
+        usage: { input_tokens: 10, output_tokens: 20 },
+      },
+      'jpeg'
+    );
+    expect(response.candidates?.map((c) => c.message.content)).toStrictEqual([
+      [
+        {
+          media: {
+            contentType: 'image/jpeg',
+            url: 'data:image/jpeg;base64,aW1n',
+          },
+        },
+      ],
+      [
+        {
+          media: {
+            contentType: 'image/jpeg',
+            url: 'data:image/jpeg;base64,aW1nMg==',
+          },
+        },
+      ],
+    ]);
+    expect(response.usage).toStrictEqual({ inputTokens: 10, outputTokens: 20 });
+  });
+
+  it('should default to png', () => {
+    const response = toImageGenerateResponse({
+      created: 0,
+      data: [{ url: 'https://example.com/image.png', revised_prompt: 'A cat' }],
+    });
+    expect(response.candidates?.[0].message.content[0].media).toStrictEqual({
+      contentType: 'image/png',
+      url: 'https://example.com/image.png',
+    });
+    expect(response.candidates?.[0].custom).toStrictEqual({
+      revisedPrompt: 'A cat',
+    });
+  });
+});
+
+describe('imageRunner', () => {
+  it('should generate images from a text prompt', async () => {
+    const { client, images } = fakeClient();
+    const request: GenerateRequest<typeof ImageConfigSchema> = {
+      messages: [{ role: 'user', content: [{ text: 'A cat' }] }],
+      config: { output_format: 'webp' },
+    };
+    const response = await imageRunner('gpt-image-1', client)(request, {
+      abortSignal,
+    });
+    expect(images.generate).toHaveBeenCalledWith(
+      { model: 'gpt-image-1', n: 1, output_format: 'webp', prompt: 'A cat' },
+      { signal: abortSignal }
+    );
+    expect(response.candidates?.[0].message.content[0].media?.contentType).toBe(
+      'image/webp'
+    );
+  });
+
+  it('should edit images with a mask', async () => {
+    const { client, images } = fakeClient();
+    await imageRunner('gpt-image-1', client)(
+      {
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { text: 'Add a hat' },
+              { media: { url: PNG_DATA_URL } },
+              { media: { url: PNG_DATA_URL } },
+              { media: { url: PNG_DATA_URL }, metadata: { mask: true } },
+            ],
+          },
+        ],
+      },
+      { abortSignal }
+    );
+    expect(images.generate).not.toHaveBeenCalled();
+    const body = images.edit.mock.calls[0][0];
+    expect(body.prompt).toBe('Add a hat');
+    expect(body.image).toHaveLength(2);
+    expect(body.image[0].name).toBe('image-0.png');
+    expect(body.mask.name).toBe('mask.png');
+    expect(Buffer.from(await body.mask.arrayBuffer()).toString()).toBe('png');
+  });
+
+  it('should create variations when dall-e-2 gets no prompt', async () => {
+    const { client, images } = fakeClient();
+    await imageRunner('dall-e-2', client)(
+      {
+        messages: [
+          { role: 'user', content: [{ media: { url: PNG_DATA_URL } }] },
+        ],
+      },
+      { abortSignal }
+    );
+    const body = images.createVariation.mock.calls[0][0];
+    expect(body.model).toBe('dall-e-2');
+    expect(body.response_format).toBe('b64_json');
+    expect(body.image.name).toBe('image-0.png');
+  });
+
+  it('should require a prompt to edit with gpt-image-1', async () => {
+    const { client } = fakeClient();
+    await expect(
+      imageRunner('gpt-image-1', client)(
+        {
+          messages: [
+            { role: 'user', content: [{ media: { url: PNG_DATA_URL } }] },
+          ],
+        },
+        { abortSignal }
+      )
+    ).rejects.toThrow('requires a prompt');
+  });
+});
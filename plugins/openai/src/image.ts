@@ -0,0 +1,340 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import type {
+  GenerateRequest,
+  GenerateResponseData,
+  MediaPart,
+  Part,
+} from 'genkit';
+import { GenerationCommonConfigSchema, z } from 'genkit';
+import type { ModelAction } from 'genkit/model';
+import { modelRef } from 'genkit/model';
+import { model } from 'genkit/plugin';
+import { toFile } from 'openai';
+import type OpenAI from 'openai';
+import type { FileLike } from 'openai/uploads.mjs';
+import type {
+  ImageCreateVariationParams,
+  ImageEditParams,
+  ImageGenerateParams,
+  ImagesResponse,
+} from 'openai/resources/images.mjs';
+
+export const ImageConfigSchema = GenerationCommonConfigSchema.extend({
+  size: z
+    .enum(['auto', '256x256', '512x512', '1024x1024', '1536x1024', '1024x1536'])
+    .optional(),
+  quality: z.enum(['auto', 'low', 'medium', 'high', 'standard']).optional(),
+  /** gpt-image-1 only. `transparent` requires the `png` or `webp` format. */
+  background: z.enum(['auto', 'transparent', 'opaque']).optional(),
+  /** gpt-image-1 only. Defaults to `png`. */
+  output_format: z.enum(['png', 'jpeg', 'webp']).optional(),
+  /** gpt-image-1 only. Compression level (0-100) of `jpeg` and `webp` images. */
+  output_compression: z.number().int().min(0).max(100).optional(),
+  /** gpt-image-1 only. */
+  moderation: z.enum(['auto', 'low']).optional(),
+  /** dall-e-2 only. gpt-image-1 always returns base64 data. */
+  response_format: z.enum(['b64_json', 'url']).optional(),
+  user: z.string().optional(),
+});
+
+export const gptImage1 = modelRef({
+  name: 'openai/gpt-image-1',
+  info: {
+    label: 'OpenAI - GPT Image 1',
+    supports: {
+      media: true,
+      output: ['media'],
+      multiturn: false,
+      systemRole: false,
+      tools: false,
+    },
+  },
+  configSchema: ImageConfigSchema,
+});
+
+export const dallE2 = modelRef({
+  name: 'openai/dall-e-2',
+  info: {
+    label: 'OpenAI - DALL-E 2',
+    supports: {
+      media: true,
+      output: ['media'],
+      multiturn: false,
+      systemRole: false,
+      tools: false,
+    },
+  },
+  configSchema: ImageConfigSchema,
+});
+
+export const SUPPORTED_IMAGE_MODELS = {
+  'gpt-image-1': gptImage1,
+  'dall-e-2': dallE2,
+};
+
+export const OUTPUT_FORMAT_MEDIA_TYPES = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+type ImageConfig = z.infer<typeof ImageConfigSchema>;
+
+/**
+ * The request parameters shared by the generation, edit and variation
+ * endpoints, including the gpt-image-1 options the SDK types do not know of.
+ */
+type ImageParams = Pick<
+  ImageConfig,
+  | 'size'
+  | 'quality'
+  | 'background'
+  | 'output_format'
+  | 'output_compression'
+  | 'moderation'
+  | 'response_format'
+  | 'user'
+> & {
+  model: string;
+  prompt?: string;
+  n?: number;
+};
+
+/** The source images and mask read from the prompt. */
+export interface ImageInputs {
+  prompt: string;
+  images: MediaPart[];
+  mask?: MediaPart;
+}
+
+/**
+ * Splits the last message of the request into the prompt text, the source
+ * images and the mask. A media part is used as the mask when its metadata has
+ * `mask: true`.
+ * @param request The Genkit generate request.
+ * @returns The prompt text and the media parts to upload.
+ */
+export function toImageInputs(request: GenerateRequest): ImageInputs {
+  const message = request.messages[request.messages.length - 1];
+  const inputs: ImageInputs = { prompt: '', images: [] };
+  for (const part of message?.content ?? ([] as Part[])) {
+    if (part.text) {
+      inputs.prompt += part.text;
+    } else if (part.media) {
+      if (part.metadata?.mask === true) {
+        inputs.mask = part as MediaPart;
+      } else {
+        inputs.images.push(part as MediaPart);
+      }
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Builds the parameters shared by the image endpoints from the request config.
+ * Options that are not set are left out.
+ * @param modelName The name of the image model.
+ * @param request The Genkit generate request.
+ * @returns The request parameters, without prompt or input images.
+ */
+export function toImageParams(
+  modelName: string,
+  request: GenerateRequest<typeof ImageConfigSchema>
+): ImageParams {
+  const {
+    version,
+    temperature,
+    maxOutputTokens,
+    topK,
+    topP,
+    stopSequences,
+    ...config
+  } = request.config ?? {};
+  const options: ImageParams = {
+    model: version ?? modelName,
+    n: request.candidates || 1,
+    ...config,
+  };
+  // gpt-image-1 rejects response_format and always returns base64 data
+  if (!options.model.startsWith('gpt-image') && !options.response_format) {
+    options.response_format = 'b64_json';
+  }
+  for (const k in options) {
+    if (options[k] === undefined) {
+      delete options[k];
+    }
+  }
+  return options;
+}
+
+/**
+ * Converts a Genkit media part into a file that can be uploaded to the image
+ * edit and variation endpoints. Data URLs are decoded; other URLs are fetched.
+ */
+async function toImageFile(
+  part: MediaPart,
+  name: string,
+  abortSignal?: AbortSignal
+): Promise<FileLike> {
+  const { url, contentType } = part.media;
+  const match = url.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/);
+  if (match) {
+    const type = contentType ?? match[1];
+    const data = Buffer.from(match[2], 'base64');
+    return toFile(data, `${name}.${extension(type)}`, { type });
+  }
+  const response = await fetch(url, { signal: abortSignal });
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch image ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+  const type = contentType ?? response.headers.get('content-type') ?? undefined;
+  return toFile(response, `${name}.${extension(type)}`, { type });
+}
+
+function extension(contentType?: string): string {
+  const subtype = contentType?.split('/')[1];
+  return subtype === 'jpeg' || subtype === 'webp' ? subtype : 'png';
+}
+
+/**
+ * Converts an images API response into Genkit candidates. Each image is
+ * returned as a media part whose content type matches the output format.
+ * @param result The images API response.
+ * @param outputFormat The requested output format.
+ * @returns The Genkit response.
+ */
+export function toImageGenerateResponse(
+  result: ImagesResponse & {
+    output_format?: ImageConfig['output_format'];
+    usage?: { input_tokens?: number; output_tokens?: number };
+  },
+  outputFormat: ImageConfig['output_format'] = 'png'
+): GenerateResponseData {
+  const contentType =
+    OUTPUT_FORMAT_MEDIA_TYPES[result.output_format ?? outputFormat];
+  const candidates: GenerateResponseData['candidates'] = result.data.map(
+    (image, index) => ({
+      index,
+      finishReason: 'stop',
+      custom: image.revised_prompt
+        ? { revisedPrompt: image.revised_prompt }
+        : undefined,
+      message: {
+        role: 'model',
+        content: [
+          {
+            media: {
+              contentType,
+              url: image.url || `data:${contentType};base64,${image.b64_json}`,
+            },
+          },
+        ],
+      },
+    })
+  );
+  return {
+    candidates,
+    usage: result.usage
+      ? {
+          inputTokens: result.usage.input_tokens,
+          outputTokens: result.usage.output_tokens,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Creates the runner of an image model. Requests without input images are
+ * sent to the generation endpoint. Requests with input images are sent to the
+ * edit endpoint, or to the variation endpoint when dall-e-2 gets no prompt.
+ * @param name The name of the image model.
+ * @param client The OpenAI client instance.
+ * @returns The runner that Genkit will call when the model is invoked.
+ */
+export function imageRunner(name: string, client: OpenAI) {
+  return async (
+    request: GenerateRequest<typeof ImageConfigSchema>,
+    { abortSignal }: { abortSignal?: AbortSignal }
+  ): Promise<GenerateResponseData> => {
+    const params = toImageParams(name, request);
+    const { prompt, images, mask } = toImageInputs(request);
+    let result: ImagesResponse;
+    if (images.length === 0) {
+      if (mask) throw new Error('A mask requires an image to edit.');
+      result = await client.images.generate(
+        { ...params, prompt } as ImageGenerateParams,
+        { signal: abortSignal }
+      );
+    } else {
+      const files = await Promise.all(
+        images.map((image, i) => toImageFile(image, `image-${i}`, abortSignal))
+      );
+      if (!prompt) {
+        if (!params.model.startsWith('dall-e-2')) {
+          throw new Error(`Model ${name} requires a prompt to edit images.`);
+        }
+        if (files.length > 1 || mask) {
+          throw new Error('Image variations take a single image and no mask.');
+        }
+        result = await client.images.createVariation(
+          { ...params, image: files[0] } as ImageCreateVariationParams,
+          { signal: abortSignal }
+        );
+      } else {
+        result = await client.images.edit(
+          {
+            ...params,
+            prompt,
+            // gpt-image-1 accepts several reference images
+            image: files.length === 1 ? files[0] : files,
+            mask: mask
+              ? await toImageFile(mask, 'mask', abortSignal)
+              : undefined,
+          } as ImageEditParams,
+          { signal: abortSignal }
+        );
+      }
+    }
+    return toImageGenerateResponse(result, params.output_format);
+  };
+}
+
+/**
+ * Defines an image model that generates, edits and varies images.
+ * @param name The name of the image model.
+ * @param client The OpenAI client instance.
+ * @returns The defined model.
+ */
+export function imageModel(
+  name: string,
+  client: OpenAI
+): ModelAction<typeof ImageConfigSchema> {
+  const ref = SUPPORTED_IMAGE_MODELS[name];
+  if (!ref) throw new Error(`Unsupported model: ${name}`);
+
+  return model<typeof ImageConfigSchema>(
+    {
+      name: ref.name,
+      ...ref.info,
+      configSchema: ref.configSchema,
+    },
+    imageRunner(name, client)
+  );
+}
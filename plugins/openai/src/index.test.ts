@@ -0,0 +1,67 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { genkit } from 'genkit';
+
+import { gpt4o, gpt4oMini, SUPPORTED_GPT_MODELS } from './gpt';
+import { openAI } from './index';
+
+describe('openAI', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  async function modelInfo(name: string) {
+    const ai = genkit({ plugins: [openAI({ apiKey: 'key' })] });
+    const action = await ai.registry.lookupAction(`/model/openai/${name}`);
+    return action?.__action.metadata?.model;
+  }
+
+  it('should create the client when Genkit initializes the plugin', async () => {
+    process.env = { ...env };
+    delete process.env.OPENAI_API_KEY;
+    const ai = genkit({ plugins: [openAI()] });
+    await expect(
+      ai.registry.lookupAction('/model/openai/gpt-4o')
+    ).rejects.toThrow('OPENAI_API_KEY');
+  });
+
+  it('should resolve fine-tunes and versions of built-in models', async () => {
+    // gpt-4o-2024-05-13 predates structured outputs
+    const { constrained, ...supports } = gpt4o.info!.supports!;
+    const fineTune = 'ft:gpt-4o-2024-05-13:acme::abc123';
+    expect((await modelInfo(fineTune)).supports).toStrictEqual(supports);
+    expect(await modelInfo(fineTune)).toMatchObject({
+      label: `OpenAI - ${fineTune}`,
+    });
+    expect((await modelInfo('gpt-4o-2024-05-13')).supports).toStrictEqual(
+      supports
+    );
+    expect(
+      (await modelInfo('ft:gpt-4o-mini-2024-07-18:acme::abc123')).supports
+    ).toStrictEqual(gpt4oMini.info!.supports);
+    expect(constrained).toBe('all');
+    expect(SUPPORTED_GPT_MODELS[fineTune]).toBeUndefined();
+    expect(SUPPORTED_GPT_MODELS['gpt-4o-2024-05-13']).toBeUndefined();
+  });
+
+  it('should not resolve unknown models', async () => {
+    expect(await modelInfo('not-a-model')).toBeUndefined();
+  });
+});
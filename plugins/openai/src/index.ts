@@ -13,20 +13,28 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import type { Genkit } from 'genkit';
-import { genkitPlugin } from 'genkit/plugin';
+import type { ActionMetadata } from 'genkit';
+import {
+  embedderActionMetadata,
+  genkitPluginV2,
+  modelActionMetadata,
+  type ResolvableAction,
+} from 'genkit/plugin';
+import type { ActionType } from 'genkit/registry';
 import { ClientOptions, OpenAI } from 'openai';
 
-import { ModelInfo } from 'genkit/model';
+import type { ModelInfo } from 'genkit/model';
 import { dallE3, dallE3Model } from './dalle.js';
 import {
   openaiEmbedder,
+  type EmbeddingBatchOptions,
   SUPPORTED_EMBEDDING_MODELS,
   textEmbedding3Large,
   textEmbedding3Small,
   textEmbeddingAda002,
 } from './embedder.js';
 import {
+  findBaseGptModelRef,
   gpt35Turbo,
   gpt4,
   gpt41,
@@ -34,10 +42,13 @@ import {
   gpt41Nano,
   gpt45,
   gpt4o,
+  gpt4oAudioPreview,
   gpt4oMini,
+  gpt4oMiniAudioPreview,
   gpt4Turbo,
   gpt4Vision,
   gptModel,
+  inferGptModelRef,
   o1,
   o1Mini,
   o1Preview,
@@ -46,6 +57,23 @@ import {
   o4Mini,
   SUPPORTED_GPT_MODELS,
 } from './gpt.js';
+import {
+  dallE2,
+  gptImage1,
+  imageModel,
+  SUPPORTED_IMAGE_MODELS,
+} from './image.js';
+import { moderationEvaluator } from './moderation.js';
+import {
+  gpt41MiniResponses,
+  gpt41Responses,
+  gpt4oMiniResponses,
+  gpt4oResponses,
+  o3Responses,
+  o4MiniResponses,
+  responsesModel,
+  SUPPORTED_RESPONSES_MODELS,
+} from './responses.js';
 import {
   SUPPORTED_TTS_MODELS,
   tts1,
@@ -60,7 +88,52 @@ import {
   sttModel,
 } from './whisper.js';
 export {
+  audioDuration,
+  splitAudio,
+  type AudioChunk,
+  type AudioSplitOptions,
+} from './audio.js';
+export {
+  embedBatch,
+  generateBatch,
+  readBatchOutput,
+  submitBatch,
+  toBatchGroups,
+  toEmbedBatchLines,
+  toGenerateBatchLines,
+  waitForBatch,
+  type BatchOptions,
+  type BatchOutputLine,
+  type BatchRequestLine,
+  type BatchResult,
+} from './batch.js';
+export {
+  openAICompatible,
+  type OpenAICompatibleModelDefinition,
+  type OpenAICompatibleOptions,
+} from './compat.js';
+export type { EmbeddingBatchOptions } from './embedder.js';
+export {
+  LogprobsSchema,
+  TokenLogprobSchema,
+  type Logprobs,
+  type TokenLogprob,
+} from './gpt.js';
+export {
+  moderationMiddleware,
+  type ModerationMiddlewareOptions,
+  type ModerationResult,
+} from './moderation.js';
+export {
+  TranscriptSchema,
+  type Transcript,
+  type TranscriptSegment,
+  type TranscriptWord,
+} from './whisper.js';
+export {
+  dallE2,
   dallE3,
+  gptImage1,
   gpt35Turbo,
   gpt4,
   gpt41,
@@ -69,6 +142,8 @@ export {
   gpt45,
   gpt4o,
   gpt4oMini,
+  gpt4oAudioPreview,
+  gpt4oMiniAudioPreview,
   gpt4Turbo,
   gpt4Vision,
   o1,
@@ -77,6 +152,12 @@ export {
   o3,
   o3Mini,
   o4Mini,
+  gpt4oResponses,
+  gpt4oMiniResponses,
+  gpt41Responses,
+  gpt41MiniResponses,
+  o3Responses,
+  o4MiniResponses,
   textEmbedding3Large,
   textEmbedding3Small,
   textEmbeddingAda002,
@@ -89,6 +170,8 @@ export {
 
 export interface PluginOptions extends Partial<ClientOptions> {
   models?: ModelDefinition[];
+  /** Limits used to batch embedding requests. */
+  embeddingBatch?: EmbeddingBatchOptions;
 }
 
 // Standard model definition
@@ -98,6 +181,82 @@ export interface ModelDefinition {
   configSchema?: any;
 }
 
+/**
+ * Resolves an action that was not registered on init. Fine-tunes and dated
+ * versions of built-in chat models resolve as chat models, with capabilities
+ * inferred from their base model; other unknown names do not resolve.
+ */
+function resolve(
+  client: OpenAI,
+  actionType: ActionType,
+  name: string,
+  options?: PluginOptions
+): ResolvableAction | undefined {
+  if (actionType === 'embedder') {
+    return SUPPORTED_EMBEDDING_MODELS[name]
+      ? openaiEmbedder(name, client, options?.embeddingBatch)
+      : undefined;
+  }
+  if (actionType === 'evaluator') {
+    return name === 'omni-moderation' ? moderationEvaluator(client) : undefined;
+  }
+  if (actionType !== 'model') return undefined;
+  if (name.startsWith('responses/')) {
+    const responsesName = name.slice('responses/'.length);
+    return SUPPORTED_RESPONSES_MODELS[responsesName]
+      ? responsesModel(responsesName, client)
+      : undefined;
+  }
+  if (name === 'dall-e-3') return dallE3Model(client);
+  if (SUPPORTED_IMAGE_MODELS[name]) return imageModel(name, client);
+  if (SUPPORTED_STT_MODELS[name]) return sttModel(name, client);
+  if (SUPPORTED_TTS_MODELS[name]) return ttsModel(name, client);
+  return name.startsWith('ft:') || findBaseGptModelRef(name)
+    ? gptModel(name, client)
+    : undefined;
+}
+
+/**
+ * Lists the models available to the API key, including fine-tunes, that the
+ * plugin knows how to serve.
+ */
+async function list(client: OpenAI): Promise<ActionMetadata[]> {
+  const clientModels = (await client.models.list()).data;
+  const metadata: ActionMetadata[] = [];
+  for (const { id } of clientModels) {
+    const modelRefs = [
+      SUPPORTED_GPT_MODELS[id] ??
+        (id.startsWith('ft:') ? inferGptModelRef(id) : undefined),
+      SUPPORTED_RESPONSES_MODELS[id],
+      SUPPORTED_STT_MODELS[id],
+      SUPPORTED_TTS_MODELS[id],
+      SUPPORTED_IMAGE_MODELS[id],
+      id === 'dall-e-3' ? dallE3 : undefined,
+    ];
+    for (const ref of modelRefs) {
+      if (!ref) continue;
+      metadata.push(
+        modelActionMetadata({
+          name: ref.name,
+          info: ref.info,
+          configSchema: ref.configSchema,
+        })
+      );
+    }
+    const embedderRef = SUPPORTED_EMBEDDING_MODELS[id];
+    if (embedderRef) {
+      metadata.push(
+        embedderActionMetadata({
+          name: embedderRef.name,
+          info: embedderRef.info,
+          configSchema: embedderRef.configSchema,
+        })
+      );
+    }
+  }
+  return metadata;
+}
+
 /**
  * This module provides an interface to the OpenAI models through the Genkit
  * plugin system. It allows users to interact with various models by providing
@@ -110,11 +269,17 @@ export interface ModelDefinition {
  * Exports:
  * - gpt4o: Reference to the GPT-4o model.
  * - gpt4oMini: Reference to the GPT-4o-mini model.
+ * - gpt4oAudioPreview, gpt4oMiniAudioPreview: References to the GPT-4o models
+ *   that can reply with spoken audio.
  * - gpt4Turbo: Reference to the GPT-4 Turbo model.
  * - gpt4Vision: Reference to the GPT-4 Vision model.
  * - gpt4: Reference to the GPT-4 model.
  * - gpt35Turbo: Reference to the GPT-3.5 Turbo model.
+ * - gpt4oResponses, gpt41Responses, o3Responses, ...: References to models
+ *   served through the Responses API.
  * - dallE3: Reference to the DALL-E 3 model.
+ * - gptImage1, dallE2: References to the image models that can also edit
+ *   images.
  * - tts1: Reference to the Text-to-speech 1 model.
  * - tts1Hd: Reference to the Text-to-speech 1 HD model.
  * - whisper: Reference to the Whisper model.
@@ -122,6 +287,12 @@ export interface ModelDefinition {
  * - textEmbedding3Small: Reference to the Text Embedding Small model.
  * - textEmbeddingAda002: Reference to the Ada model.
  * - openai: The main plugin function to interact with OpenAI.
+ * - openAICompatible: A plugin for servers implementing the OpenAI API.
+ * - generateBatch, embedBatch: Helpers running bulk requests through the
+ *   Batch API.
+ * - moderationMiddleware: Middleware blocking or annotating generate calls
+ *   whose input or output is flagged by the moderation endpoint. The
+ *   `openai/omni-moderation` evaluator scores datasets the same way.
  *
  * Usage:
  * To use the models, initialize the openai plugin inside `configureGenkit` and
@@ -140,30 +311,54 @@ export interface ModelDefinition {
  * });
  * ```
  */
-export const openAI = (options?: PluginOptions) =>
-  genkitPlugin('openai', async (ai: Genkit) => {
-    const client = new OpenAI(options);
-    for (const name of Object.keys(SUPPORTED_GPT_MODELS)) {
-      gptModel(ai, name, client);
-    }
-    // Initialize the models if provided in the options
-    options?.models?.map((model) => {
-      if (!model.name || !model.info || !model.configSchema) {
-        throw new Error(`Model ${model.name} is missing required fields`);
+export const openAI = (options?: PluginOptions) => {
+  // Created on first use, so a missing API key only fails once Genkit starts
+  let client: OpenAI | undefined;
+  const getClient = () => (client ??= new OpenAI(options));
+  let listActionsCache: ActionMetadata[] | null = null;
+
+  return genkitPluginV2({
+    name: 'openai',
+    init: async () => {
+      const client = getClient();
+      const actions: ResolvableAction[] = Object.keys(SUPPORTED_GPT_MODELS).map(
+        (name) => gptModel(name, client)
+      );
+      // Initialize the models if provided in the options
+      options?.models?.forEach((model) => {
+        if (!model.name || !model.info || !model.configSchema) {
+          throw new Error(`Model ${model.name} is missing required fields`);
+        }
+        actions.push(gptModel(model.name, client, model.info, model));
+      });
+      for (const name of Object.keys(SUPPORTED_RESPONSES_MODELS)) {
+        actions.push(responsesModel(name, client));
       }
-      gptModel(ai, model.name, client, model.info, model.configSchema);
-    });
 
-    dallE3Model(ai, client);
-    for (const name of Object.keys(SUPPORTED_STT_MODELS)) {
-      sttModel(ai, name, client);
-    }
-    for (const name of Object.keys(SUPPORTED_TTS_MODELS)) {
-      ttsModel(ai, name, client);
-    }
-    for (const name of Object.keys(SUPPORTED_EMBEDDING_MODELS)) {
-      openaiEmbedder(ai, name, options);
-    }
+      actions.push(dallE3Model(client));
+      for (const name of Object.keys(SUPPORTED_IMAGE_MODELS)) {
+        actions.push(imageModel(name, client));
+      }
+      for (const name of Object.keys(SUPPORTED_STT_MODELS)) {
+        actions.push(sttModel(name, client));
+      }
+      for (const name of Object.keys(SUPPORTED_TTS_MODELS)) {
+        actions.push(ttsModel(name, client));
+      }
+      for (const name of Object.keys(SUPPORTED_EMBEDDING_MODELS)) {
+        actions.push(openaiEmbedder(name, client, options?.embeddingBatch));
+      }
+      actions.push(moderationEvaluator(client));
+      return actions;
+    },
+    resolve: (actionType: ActionType, name: string) =>
+      resolve(getClient(), actionType, name, options),
+    list: async () => {
+      if (listActionsCache) return listActionsCache;
+      listActionsCache = await list(getClient());
+      return listActionsCache;
+    },
   });
+};
 
 export default openAI;
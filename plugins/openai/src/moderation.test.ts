@@ -0,0 +1,268 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from '@jest/globals';
+import {
+  genkit,
+  type GenerateRequest,
+  type GenerateResponseData,
+} from 'genkit';
+import type OpenAI from 'openai';
+
+import {
+  moderationEvaluator,
+  moderationMiddleware,
+  toModerationResult,
+} from './moderation';
+
+/** Flags every text that contains "hate". */
+function fakeClient() {
+  const create = jest.fn(async (body: any) => {
+    const flagged = body.input.some(
+      (input: any) => input.type === 'text' && input.text.includes('hate')
+    );
+    return {
+      id: 'modr',
+      model: body.model,
+      results: [
+        {
+          flagged,
+          categories: { hate: flagged, violence: false },
+          category_scores: { hate: flagged ? 0.9 : 0.01, violence: 0.02 },
+          category_applied_input_types: {},
+        },
+      ],
+    };
+  });
+  return {
+    client: { moderations: { create } } as unknown as OpenAI,
+    create,
+  };
+}
+
+function request(text: string): GenerateRequest {
+  return { messages: [{ role: 'user', content: [{ text }] }] };
+}
+
+function reply(text: string): GenerateResponseData {
+  return {
+    candidates: [
+      {
+        index: 0,
+        finishReason: 'stop',
+        message: { role: 'model', content: [{ text }] },
+      },
+    ],
+    usage: { inputTokens: 1, outputTokens: 2 },
+  };
+}
+
+describe('toModerationResult', () => {
+  it('should keep the highest scores and the checked categories', () => {
+    const result = toModerationResult(
+      [
+        {
+          flagged: true,
+          categories: { hate: true, violence: true },
+          category_scores: { hate: 0.6, violence: 0.7 },
+        },
+        {
+          flagged: false,
+          categories: { hate: false, violence: false },
+          category_scores: { hate: 0.8, violence: 0.1 },
+        },
+      ] as any,
+      ['violence']
+    );
+    expect(result).toStrictEqual({
+      flagged: true,
+      categories: ['violence'],
+      scores: { hate: 0.8, violence: 0.7 },
+    });
+  });
+});
+
+describe('moderationMiddleware', () => {
+  it('should block flagged input without calling the model', async () => {
+    const { client, create } = fakeClient();
+    const next = jest.fn(async () => reply('Hi'));
+    const response = await moderationMiddleware(client)(
+      {
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { text: 'I hate you' },
+              { media: { url: 'https://example.com/cat.png' } },
+            ],
+          },
+        ],
+      },
+      next
+    );
+    expect(next).not.toHaveBeenCalled();
+    expect(create.mock.calls[0][0]).toStrictEqual({
+      model: 'omni-moderation-latest',
+      input: [
+        { type: 'text', text: 'I hate you' },
+        {
+          type: 'image_url',
+          image_url: { url: 'https://example.com/cat.png' },
+        },
+      ],
+    });
+    expect(response).toStrictEqual({
+      message: { role: 'model', content: [] },
+      finishReason: 'blocked',
+      finishMessage: 'The input was flagged by moderation for hate.',
+      usage: undefined,
+      custom: {
+        moderation: {
+          input: {
+            flagged: true,
+            categories: ['hate'],
+            scores: { hate: 0.9, violence: 0.02 },
+          },
+        },
+      },
+    });
+  });
+
+  it('should block flagged output', async () => {
+    const { client, create } = fakeClient();
+    const response = await moderationMiddleware(client)(
+      request('Hello'),
+      async () => reply('I hate you')
+    );
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(response.finishReason).toBe('blocked');
+    expect(response.message?.content).toStrictEqual([]);
+    expect(response.usage).toStrictEqual({ inputTokens: 1, outputTokens: 2 });
+    expect((response.custom as any).moderation.output.flagged).toBe(true);
+  });
+
+  it('should annotate the response when asked to', async () => {
+    const { client } = fakeClient();
+    const response = await moderationMiddleware(client, {
+      check: 'output',
+      action: 'annotate',
+    })(request('Hello'), async () => reply('I hate you'));
+    expect(response.candidates?.[0].message.content).toStrictEqual([
+      { text: 'I hate you' },
+    ]);
+    expect(response.custom).toStrictEqual({
+      moderation: {
+        output: {
+          flagged: true,
+          categories: ['hate'],
+          scores: { hate: 0.9, violence: 0.02 },
+        },
+      },
+    });
+  });
+
+  it('should ignore categories that are not checked', async () => {
+    const { client } = fakeClient();
+    const response = await moderationMiddleware(client, {
+      categories: ['violence'],
+    })(request('I hate you'), async () => reply('Hi'));
+    expect(response.finishReason).toBeUndefined();
+    expect(response.candidates?.[0].finishReason).toBe('stop');
+  });
+});
+
+describe('moderationEvaluator', () => {
+  const warn = console.warn;
+
+  beforeEach(() => {
+    // Genkit validates evaluator output against a schema with union types,
+    // which Ajv warns about in strict mode
+    jest.spyOn(console, 'warn').mockImplementation((...args) => {
+      if (!String(args[0]).startsWith('strict mode:')) warn(...args);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fail flagged datapoints', async () => {
+    // Sets up the tracing that running an action needs
+    genkit({});
+    const { client, create } = fakeClient();
+    const { result } = await moderationEvaluator(client).run({
+      evalRunId: 'run',
+      dataset: [
+        { testCaseId: 'a', input: 'Hi', output: 'I hate you' },
+        { testCaseId: 'b', input: { question: 'Hello' } },
+      ],
+    });
+    expect(create.mock.calls[1][0].input).toStrictEqual([
+      { type: 'text', text: '{"question":"Hello"}' },
+    ]);
+    expect(result).toMatchObject([
+      {
+        testCaseId: 'a',
+        evaluation: {
+          score: 0.9,
+          status: 'FAIL',
+          details: {
+            reasoning: 'Flagged for hate.',
+            categories: ['hate'],
+            scores: { hate: 0.9, violence: 0.02 },
+          },
+        },
+      },
+      {
+        testCaseId: 'b',
+        evaluation: {
+          score: 0.02,
+          status: 'PASS',
+          details: {
+            reasoning: 'No category was flagged.',
+            categories: [],
+            scores: { hate: 0.01, violence: 0.02 },
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should report datapoints with nothing to moderate', async () => {
+    genkit({});
+    const { client, create } = fakeClient();
+    const { result } = await moderationEvaluator(client).run({
+      evalRunId: 'run',
+      dataset: [{ testCaseId: 'a' }],
+    });
+    expect(create).not.toHaveBeenCalled();
+    expect(result).toMatchObject([
+      {
+        testCaseId: 'a',
+        evaluation: {
+          error: 'The datapoint has neither an output nor an input.',
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { GenerateResponseData, MessageData } from 'genkit';
+import type { EvalResponse } from 'genkit/evaluator';
+import type { ModelMiddleware } from 'genkit/model';
+import { evaluator } from 'genkit/plugin';
+import type OpenAI from 'openai';
+import type {
+  Moderation,
+  ModerationModel,
+  ModerationMultiModalInput,
+} from 'openai/resources/moderations.mjs';
+
+export const DEFAULT_MODERATION_MODEL: ModerationModel =
+  'omni-moderation-latest';
+
+/** The outcome of moderating a piece of content. */
+export interface ModerationResult {
+  /** Whether any of the checked categories was flagged. */
+  flagged: boolean;
+  /** The names of the flagged categories, e.g. `harassment/threatening`. */
+  categories: string[];
+  /** The score of every category, between 0 and 1. */
+  scores: Record<string, number>;
+}
+
+export interface ModerationMiddlewareOptions {
+  /** The moderation model. Defaults to `omni-moderation-latest`. */
+  model?: ModerationModel;
+  /** Which side of the generate call to moderate. Defaults to `both`. */
+  check?: 'input' | 'output' | 'both';
+  /**
+   * What to do with flagged content. `block` replaces the response with an
+   * empty one whose finish reason is `blocked`; `annotate` keeps the response
+   * and only reports the moderation results. Defaults to `block`.
+   */
+  action?: 'block' | 'annotate';
+  /**
+   * The categories that count as flagged. Defaults to every category the
+   * model flags.
+   */
+  categories?: string[];
+}
+
+/**
+ * Merges moderation results into one, keeping the highest score of each
+ * category.
+ * @param results The results returned by the moderation endpoint.
+ * @param categories The categories that count as flagged, if restricted.
+ * @returns The merged result.
+ */
+export function toModerationResult(
+  results: Moderation[],
+  categories?: string[]
+): ModerationResult {
+  const flaggedCategories = new Set<string>();
+  const scores: Record<string, number> = {};
+  for (const result of results) {
+    for (const [category, flagged] of Object.entries(result.categories)) {
+      if (flagged && (!categories || categories.includes(category))) {
+        flaggedCategories.add(category);
+      }
+    }
+    for (const [category, score] of Object.entries(result.category_scores)) {
+      scores[category] = Math.max(scores[category] ?? 0, score);
+    }
+  }
+  return {
+    flagged: flaggedCategories.size > 0,
+    categories: [...flaggedCategories],
+    scores,
+  };
+}
+
+/**
+ * Converts a message to moderation inputs. Images are only supported by the
+ * omni-moderation models and are left out for the others.
+ * @param message The message to moderate.
+ * @param model The moderation model.
+ * @returns The text and image inputs of the message.
+ */
+function toModerationInputs(
+  message: MessageData | undefined,
+  model: ModerationModel
+): ModerationMultiModalInput[] {
+  const inputs: ModerationMultiModalInput[] = [];
+  const text = (message?.content ?? []).map((part) => part.text ?? '').join('');
+  if (text) inputs.push({ type: 'text', text });
+  if (!model.startsWith('omni-')) return inputs;
+  for (const part of message?.content ?? []) {
+    const contentType =
+      part.media?.contentType ?? part.media?.url.match(/^data:([^;,]+)/)?.[1];
+    if (part.media && (!contentType || contentType.startsWith('image/'))) {
+      inputs.push({ type: 'image_url', image_url: { url: part.media.url } });
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Moderates content with the moderation endpoint.
+ * @param client The OpenAI client instance.
+ * @param inputs The text and image inputs.
+ * @param model The moderation model.
+ * @param categories The categories that count as flagged, if restricted.
+ * @returns The moderation result, or `undefined` when there is nothing to
+ * moderate.
+ */
+async function moderate(
+  client: OpenAI,
+  inputs: ModerationMultiModalInput[],
+  model: ModerationModel,
+  categories?: string[]
+): Promise<ModerationResult | undefined> {
+  if (!inputs.length) return undefined;
+  const response = await client.moderations.create({ model, input: inputs });
+  return toModerationResult(response.results, categories);
+}
+
+/**
+ * Defines an evaluator that scores each datapoint with the moderation
+ * endpoint. The output of the datapoint is moderated, or its input when there
+ * is no output; a datapoint with neither is scored with an error. A datapoint
+ * fails when any category is flagged, and its score is the highest category
+ * score.
+ * @param client The OpenAI client instance.
+ * @param model The moderation model.
+ * @returns The defined evaluator.
+ */
+export function moderationEvaluator(
+  client: OpenAI,
+  model: ModerationModel = DEFAULT_MODERATION_MODEL
+) {
+  return evaluator(
+    {
+      name: 'openai/omni-moderation',
+      displayName: 'OpenAI Moderation',
+      definition:
+        'Flags harmful content, such as harassment, hate, self-harm, sexual or violent content, with the OpenAI moderation endpoint.',
+      isBilled: false,
+    },
+    async (datapoint): Promise<EvalResponse> => {
+      const value = datapoint.output ?? datapoint.input;
+      if (value === undefined) {
+        return {
+          testCaseId: datapoint.testCaseId,
+          evaluation: {
+            error: 'The datapoint has neither an output nor an input.',
+          },
+        };
+      }
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      const result = (await moderate(
+        client,
+        [{ type: 'text', text }],
+        model
+      )) ?? { flagged: false, categories: [], scores: {} };
+      return {
+        testCaseId: datapoint.testCaseId,
+        evaluation: {
+          score: Math.max(0, ...Object.values(result.scores)),
+          status: result.flagged ? 'FAIL' : 'PASS',
+          details: {
+            reasoning: result.flagged
+              ? `Flagged for ${result.categories.join(', ')}.`
+              : 'No category was flagged.',
+            categories: result.categories,
+            scores: result.scores,
+          },
+        },
+      };
+    }
+  );
+}
+
+/**
+ * Creates model middleware that moderates the last user message before the
+ * model runs and the model's reply after it. With the `block` action, flagged
+ * input skips the model, and flagged output is dropped; either way the
+ * response has no content and finishes as `blocked`. The moderation results
+ * are reported under `custom.moderation.input` and `custom.moderation.output`.
+ *
+ * Chunks of a streaming response are sent before the output is moderated, so
+ * output moderation only guards the final response.
+ * @param client The OpenAI client instance.
+ * @param options How to moderate the generate call.
+ * @returns The middleware, to pass in the `use` option of `generate`.
+ */
+export function moderationMiddleware(
+  client: OpenAI,
+  options: ModerationMiddlewareOptions = {}
+): ModelMiddleware {
+  const {
+    model = DEFAULT_MODERATION_MODEL,
+    check = 'both',
+    action = 'block',
+    categories,
+  } = options;
+
+  const blocked = (
+    response: Partial<GenerateResponseData>,
+    side: 'input' | 'output',
+    moderation: Record<string, ModerationResult>
+  ): GenerateResponseData => ({
+    message: { role: 'model', content: [] },
+    finishReason: 'blocked',
+    finishMessage: `The ${side} was flagged by moderation for ${moderation[side].categories.join(', ')}.`,
+    usage: response.usage,
+    custom: { moderation },
+  });
+
+  return async (request, next) => {
+    const moderation: Record<string, ModerationResult> = {};
+    if (check !== 'output') {
+      const lastUserMessage = [...request.messages]
+        .reverse()
+        .find((message) => message.role === 'user');
+      const result = await moderate(
+        client,
+        toModerationInputs(lastUserMessage, model),
+        model,
+        categories
+      );
+      if (result) moderation.input = result;
+      if (result?.flagged && action === 'block') {
+        return blocked({}, 'input', moderation);
+      }
+    }
+
+    const response = await next(request);
+    if (check !== 'input') {
+      const result = await moderate(
+        client,
+        toModerationInputs(
+          response.message ?? response.candidates?.[0]?.message,
+          model
+        ),
+        model,
+        categories
+      );
+      if (result) moderation.output = result;
+      if (result?.flagged && action === 'block') {
+        return blocked(response, 'output', moderation);
+      }
+    }
+    if (!Object.keys(moderation).length) return response;
+    return {
+      ...response,
+      custom: { ...(response.custom as object), moderation },
+    };
+  };
+}
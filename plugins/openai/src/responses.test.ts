@@ -0,0 +1,499 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type OpenAI from 'openai';
+import type { MessageData } from 'genkit';
+import type {
+  Response,
+  ResponseStreamEvent,
+} from 'openai/resources/responses/responses.mjs';
+
+import {
+  fromOpenAiResponse,
+  fromOpenAiResponseStreamEvent,
+  responsesRunner,
+  toOpenAiResponsesInput,
+  toOpenAiResponsesRequestBody,
+} from './responses';
+
+function makeResponse(output: Response['output'], extra = {}): Response {
+  return {
+    id: 'resp_123',
+    object: 'response',
+    created_at: 0,
+    status: 'completed',
+    output,
+    output_text: '',
+    error: null,
+    incomplete_details: null,
+    instructions: null,
+    metadata: null,
+    model: 'gpt-4o',
+    parallel_tool_calls: true,
+    temperature: null,
+    tool_choice: 'auto',
+    tools: [],
+    top_p: null,
+    usage: {
+      input_tokens: 10,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens: 5,
+      output_tokens_details: { reasoning_tokens: 0 },
+      total_tokens: 15,
+    },
+    ...extra,
+  };
+}
+
+describe('toOpenAiResponsesInput', () => {
+  it('should convert messages, tool calls and tool outputs', () => {
+    const messages: MessageData[] = [
+      { role: 'system', content: [{ text: 'Be brief.' }] },
+      {
+        role: 'user',
+        content: [
+          { text: 'What is this?' },
+          { media: { url: 'https://example.com/cat.jpg' } },
+        ],
+      },
+      {
+        role: 'model',
+        content: [
+          { toolRequest: { ref: 'call_1', name: 'lookup', input: { q: 1 } } },
+        ],
+      },
+      {
+        role: 'tool',
+        content: [
+          { toolResponse: { ref: 'call_1', name: 'lookup', output: 'cat' } },
+        ],
+      },
+    ];
+    expect(toOpenAiResponsesInput(messages)).toStrictEqual([
+      { role: 'system', content: 'Be brief.' },
+      {
+        role: 'user',
+        content: [
+          { type: 'input_text', text: 'What is this?' },
+          {
+            type: 'input_image',
+            image_url: 'https://example.com/cat.jpg',
+            detail: 'auto',
+          },
+        ],
+      },
+      {
+        type: 'function_call',
+        call_id: 'call_1',
+        name: 'lookup',
+        arguments: '{"q":1}',
+      },
+      { type: 'function_call_output', call_id: 'call_1', output: 'cat' },
+    ]);
+  });
+
+  it('should keep the text of model messages with tool calls', () => {
+    const messages: MessageData[] = [
+      {
+        role: 'model',
+        content: [
+          { text: 'Let me look that up.' },
+          { toolRequest: { ref: 'call_1', name: 'lookup', input: { q: 1 } } },
+        ],
+      },
+    ];
+    expect(toOpenAiResponsesInput(messages)).toStrictEqual([
+      { role: 'assistant', content: 'Let me look that up.' },
+      {
+        type: 'function_call',
+        call_id: 'call_1',
+        name: 'lookup',
+        arguments: '{"q":1}',
+      },
+    ]);
+  });
+});
+
+describe('toOpenAiResponsesRequestBody', () => {
+  it('should continue from the latest stored response', () => {
+    const body = toOpenAiResponsesRequestBody('gpt-4o', {
+      messages: [
+        { role: 'user', content: [{ text: 'Hi' }] },
+        {
+          role: 'model',
+          content: [{ text: 'Hello!' }],
+          metadata: { responseId: 'resp_1' },
+        },
+        { role: 'user', content: [{ text: 'How are you?' }] },
+      ],
+    });
+    expect(body).toStrictEqual({
+      model: 'gpt-4o',
+      input: [{ role: 'user', content: 'How are you?' }],
+      previous_response_id: 'resp_1',
+    });
+  });
+
+  it('should not send sampling parameters to reasoning models', () => {
+    const body = toOpenAiResponsesRequestBody('o3', {
+      messages: [{ role: 'user', content: [{ text: 'Hi' }] }],
+      config: { temperature: 0.5, topP: 0.9, maxOutputTokens: 100 },
+    });
+    expect(body).toStrictEqual({
+      model: 'o3',
+      input: [{ role: 'user', content: 'Hi' }],
+      max_output_tokens: 100,
+    });
+  });
+
+  it('should send the full history when store is disabled', () => {
+    const body = toOpenAiResponsesRequestBody('gpt-4o', {
+      messages: [
+        {
+          role: 'model',
+          content: [{ text: 'Hello!' }],
+          metadata: { responseId: 'resp_1' },
+        },
+        { role: 'user', content: [{ text: 'How are you?' }] },
+      ],
+      config: { store: false },
+    });
+    expect(body.previous_response_id).toBeUndefined();
+    expect(body.input).toHaveLength(2);
+    expect(body.store).toBe(false);
+  });
+
+  it('should add function and built-in tools', () => {
+    const body = toOpenAiResponsesRequestBody('gpt-4.1', {
+      messages: [{ role: 'user', content: [{ text: 'Find it' }] }],
+      tools: [
+        {
+          name: 'lookup',
+          description: 'Looks things up',
+          inputSchema: { type: 'object', properties: {} },
+        },
+      ],
+      config: {
+        webSearch: { searchContextSize: 'low' },
+        fileSearch: { vectorStoreIds: ['vs_1'], maxNumResults: 3 },
+      },
+    });
+    expect(body.tools).toStrictEqual([
+      {
+        type: 'function',
+        name: 'lookup',
+        description: 'Looks things up',
+        parameters: { type: 'object', properties: {} },
+        strict: false,
+      },
+      {
+        type: 'web_search_preview',
+        search_context_size: 'low',
+        user_location: undefined,
+      },
+      {
+        type: 'file_search',
+        vector_store_ids: ['vs_1'],
+        max_num_results: 3,
+      },
+    ]);
+  });
+
+  it('should request structured output when a schema is provided', () => {
+    const body = toOpenAiResponsesRequestBody('gpt-4o', {
+      messages: [],
+      output: {
+        format: 'json',
+        schema: {
+          type: 'object',
+          properties: { answer: { type: 'string' } },
+          required: ['answer'],
+        },
+      },
+    });
+    expect(body.text).toStrictEqual({
+      format: {
+        type: 'json_schema',
+        name: 'output',
+        schema: {
+          type: 'object',
+          properties: { answer: { type: 'string' } },
+          required: ['answer'],
+          additionalProperties: false,
+        },
+        strict: true,
+      },
+    });
+  });
+
+  it('should ask for JSON in the prompt of JSON mode requests', () => {
+    const body = toOpenAiResponsesRequestBody('gpt-4o', {
+      messages: [{ role: 'user', content: [{ text: 'Name a framework' }] }],
+      output: { format: 'json' },
+    });
+    expect(body.text).toStrictEqual({ format: { type: 'json_object' } });
+    expect(body.input).toStrictEqual([
+      { role: 'user', content: 'Name a framework' },
+      { role: 'user', content: '\n\nOutput should be in JSON format.\n' },
+    ]);
+  });
+
+  it('should not send schemas strict mode cannot enforce as strict', () => {
+    const record = {
+      type: 'object',
+      additionalProperties: { type: 'number' },
+    };
+    expect(
+      toOpenAiResponsesRequestBody('gpt-4o', {
+        messages: [],
+        output: { format: 'json', schema: record },
+      }).text
+    ).toStrictEqual({ format: { type: 'json_object' } });
+    const body = toOpenAiResponsesRequestBody('gpt-4o', {
+      messages: [{ role: 'user', content: [{ text: 'Name frameworks' }] }],
+      output: { format: 'json', schema: { type: 'array' } },
+    });
+    expect(body.text).toBeUndefined();
+    expect(body.input).toHaveLength(2);
+  });
+
+  it('should throw for unknown models', () => {
+    expect(() =>
+      toOpenAiResponsesRequestBody('unknown-model', { messages: [] })
+    ).toThrowError('Unsupported model: unknown-model');
+  });
+});
+
+describe('fromOpenAiResponse', () => {
+  it('should convert text, tool calls and built-in tool calls', () => {
+    const response = makeResponse([
+      { id: 'ws_1', type: 'web_search_call', status: 'completed' },
+      {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        status: 'completed',
+        content: [
+          {
+            type: 'output_text',
+            text: 'It is sunny.',
+            annotations: [
+              {
+                type: 'url_citation',
+                url: 'https://example.com',
+                title: 'Weather',
+                start_index: 0,
+                end_index: 12,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        type: 'function_call',
+        call_id: 'call_1',
+        name: 'lookup',
+        arguments: '{"q":1}',
+      },
+    ]);
+    expect(fromOpenAiResponse(response)).toStrictEqual({
+      candidates: [
+        {
+          index: 0,
+          finishReason: 'stop',
+          finishMessage: undefined,
+          message: {
+            role: 'model',
+            content: [
+              {
+                toolResponse: {
+                  name: 'web_search',
+                  ref: 'ws_1',
+                  output: { status: 'completed' },
+                },
+              },
+              {
+                text: 'It is sunny.',
+                metadata: {
+                  annotations: [
+                    {
+                      type: 'url_citation',
+                      url: 'https://example.com',
+                      title: 'Weather',
+                      start_index: 0,
+                      end_index: 12,
+                    },
+                  ],
+                },
+              },
+              {
+                toolRequest: { name: 'lookup', ref: 'call_1', input: { q: 1 } },
+              },
+            ],
+            metadata: { responseId: 'resp_123' },
+          },
+          custom: {},
+        },
+      ],
+      usage: {
+        inputTokens: 10,
+        outputTokens: 5,
+        totalTokens: 15,
+        thoughtsTokens: 0,
+        cachedContentTokens: 0,
+      },
+      custom: response,
+    });
+  });
+
+  it('should report refusals as blocked', () => {
+    const response = makeResponse([
+      {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        status: 'completed',
+        content: [{ type: 'refusal', refusal: 'No.' }],
+      },
+    ]);
+    const candidate = fromOpenAiResponse(response).candidates![0];
+    expect(candidate.finishReason).toBe('blocked');
+    expect(candidate.finishMessage).toBe('No.');
+    expect(candidate.message.content).toStrictEqual([]);
+  });
+
+  it('should map incomplete responses to length', () => {
+    const response = makeResponse([], {
+      status: 'incomplete',
+      incomplete_details: { reason: 'max_output_tokens' },
+    });
+    expect(fromOpenAiResponse(response).candidates![0].finishReason).toBe(
+      'length'
+    );
+  });
+});
+
+describe('fromOpenAiResponseStreamEvent', () => {
+  it('should emit text deltas', () => {
+    expect(
+      fromOpenAiResponseStreamEvent({
+        type: 'response.output_text.delta',
+        delta: 'Hel',
+        item_id: 'msg_1',
+        output_index: 0,
+        content_index: 0,
+      })
+    ).toStrictEqual({ index: 0, content: [{ text: 'Hel' }] });
+  });
+
+  it('should emit completed tool calls', () => {
+    expect(
+      fromOpenAiResponseStreamEvent({
+        type: 'response.output_item.done',
+        output_index: 1,
+        item: {
+          type: 'function_call',
+          call_id: 'call_1',
+          name: 'lookup',
+          arguments: '{}',
+        },
+      })
+    ).toStrictEqual({
+      index: 0,
+      content: [{ toolRequest: { name: 'lookup', ref: 'call_1', input: {} } }],
+    });
+  });
+
+  it('should ignore lifecycle events', () => {
+    expect(
+      fromOpenAiResponseStreamEvent({
+        type: 'response.created',
+        response: makeResponse([]),
+      })
+    ).toBeUndefined();
+  });
+});
+
+describe('responsesRunner', () => {
+  it('should correctly run non-streaming requests', async () => {
+    const client = {
+      responses: {
+        create: jest.fn(async () => makeResponse([])),
+      },
+    };
+    const runner = responsesRunner('gpt-4o', client as unknown as OpenAI);
+    const abortSignal = new AbortController().signal;
+    const result = await runner(
+      { messages: [{ role: 'user', content: [{ text: 'Hi' }] }] },
+      { streamingRequested: false, sendChunk: jest.fn(), abortSignal }
+    );
+    expect(client.responses.create).toHaveBeenCalledWith(
+      {
+        model: 'gpt-4o',
+        input: [{ role: 'user', content: 'Hi' }],
+      },
+      { signal: abortSignal }
+    );
+    expect(result.candidates![0].message.metadata).toStrictEqual({
+      responseId: 'resp_123',
+    });
+  });
+
+  it('should correctly run streaming requests', async () => {
+    const events: ResponseStreamEvent[] = [
+      {
+        type: 'response.output_text.delta',
+        delta: 'Hi',
+        item_id: 'msg_1',
+        output_index: 0,
+        content_index: 0,
+      },
+      { type: 'response.completed', response: makeResponse([]) },
+    ];
+    const client = {
+      responses: {
+        create: jest.fn(async () => ({
+          async *[Symbol.asyncIterator]() {
+            yield* events;
+          },
+        })),
+      },
+    };
+    const sendChunk = jest.fn();
+    const runner = responsesRunner('gpt-4o', client as unknown as OpenAI);
+    const abortSignal = new AbortController().signal;
+    const result = await runner(
+      { messages: [] },
+      { streamingRequested: true, sendChunk, abortSignal }
+    );
+    expect(client.responses.create).toHaveBeenCalledWith(
+      { model: 'gpt-4o', stream: true },
+      { signal: abortSignal }
+    );
+    expect(sendChunk).toHaveBeenCalledWith({
+      index: 0,
+      content: [{ text: 'Hi' }],
+    });
+    expect(result.usage).toStrictEqual({
+      inputTokens: 10,
+      outputTokens: 5,
+      totalTokens: 15,
+      thoughtsTokens: 0,
+      cachedContentTokens: 0,
+    });
+  });
+});
@@ -0,0 +1,630 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type {
+  GenerateRequest,
+  GenerateResponseData,
+  MessageData,
+  ModelReference,
+  Part,
+  StreamingCallback,
+} from 'genkit';
+import { GenerationCommonConfigSchema, z } from 'genkit';
+import type {
+  CandidateData,
+  GenerateResponseChunkData,
+  ModelAction,
+  ToolDefinition,
+} from 'genkit/model';
+import { extractJson } from 'genkit/extract';
+import { modelRef } from 'genkit/model';
+import { model } from 'genkit/plugin';
+import type OpenAI from 'openai';
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+} from 'openai/resources/index.mjs';
+import type {
+  FunctionTool,
+  Response,
+  ResponseCreateParamsNonStreaming,
+  ResponseInputContent,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseStreamEvent,
+  Tool,
+} from 'openai/resources/responses/responses.mjs';
+
+import {
+  isReasoningModel,
+  PARAMS_UNSUPPORTED_BY_REASONING_MODELS,
+  toOpenAiMessages,
+} from './gpt.js';
+import {
+  fromStrictJsonOutput,
+  isObjectSchema,
+  isStrictCompatible,
+  toStrictJsonSchema,
+  withOutputInstructions,
+} from './schema.js';
+
+export const OpenAiResponsesConfigSchema = GenerationCommonConfigSchema.extend({
+  previousResponseId: z.string().optional(),
+  store: z.boolean().optional(),
+  user: z.string().optional(),
+  visualDetailLevel: z.enum(['auto', 'low', 'high']).optional(),
+  webSearch: z
+    .object({
+      searchContextSize: z.enum(['low', 'medium', 'high']).optional(),
+      userLocation: z
+        .object({
+          city: z.string().optional(),
+          country: z.string().optional(),
+          region: z.string().optional(),
+          timezone: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  fileSearch: z
+    .object({
+      vectorStoreIds: z.array(z.string()),
+      maxNumResults: z.number().int().min(1).max(50).optional(),
+    })
+    .optional(),
+});
+
+/** Names of the Genkit tool parts used for the built-in Responses API tools. */
+export const WEB_SEARCH_TOOL_NAME = 'web_search';
+export const FILE_SEARCH_TOOL_NAME = 'file_search';
+
+function responsesModelRef(
+  name: string,
+  label: string,
+  media: boolean,
+  systemRole = true
+) {
+  return modelRef({
+    name: `openai/responses/${name}`,
+    info: {
+      versions: [name],
+      label: `OpenAI - ${label} (Responses API)`,
+      supports: {
+        multiturn: true,
+        tools: true,
+        media,
+        systemRole,
+        output: ['text', 'json'],
+        constrained: 'all',
+      },
+    },
+    configSchema: OpenAiResponsesConfigSchema,
+  });
+}
+
+export const gpt4oResponses = responsesModelRef('gpt-4o', 'GPT-4o', true);
+export const gpt4oMiniResponses = responsesModelRef(
+  'gpt-4o-mini',
+  'GPT-4o mini',
+  true
+);
+export const gpt41Responses = responsesModelRef('gpt-4.1', 'GPT-4.1', true);
+export const gpt41MiniResponses = responsesModelRef(
+  'gpt-4.1-mini',
+  'GPT-4.1 Mini',
+  true
+);
+export const o3Responses = responsesModelRef('o3', 'o3', true, false);
+export const o4MiniResponses = responsesModelRef(
+  'o4-mini',
+  'o4 Mini',
+  true,
+  false
+);
+
+export const SUPPORTED_RESPONSES_MODELS: Record<
+  string,
+  ModelReference<typeof OpenAiResponsesConfigSchema>
+> = {
+  'gpt-4o': gpt4oResponses,
+  'gpt-4o-mini': gpt4oMiniResponses,
+  'gpt-4.1': gpt41Responses,
+  'gpt-4.1-mini': gpt41MiniResponses,
+  o3: o3Responses,
+  'o4-mini': o4MiniResponses,
+};
+
+type ResponsesRequest = GenerateRequest<typeof OpenAiResponsesConfigSchema>;
+
+function toResponsesContent(
+  part: ChatCompletionContentPart
+): ResponseInputContent {
+  switch (part.type) {
+    case 'text':
+      return { type: 'input_text', text: part.text };
+    case 'image_url':
+      return {
+        type: 'input_image',
+        image_url: part.image_url.url,
+        detail: part.image_url.detail ?? 'auto',
+      };
+    case 'file':
+      return {
+        type: 'input_file',
+        file_data: part.file.file_data,
+        file_id: part.file.file_id,
+        filename: part.file.filename,
+      };
+    default:
+      throw new Error(
+        `Unsupported content part type for the Responses API: ${part.type}`
+      );
+  }
+}
+
+function toResponsesInputItems(
+  message: ChatCompletionMessageParam
+): ResponseInputItem[] {
+  switch (message.role) {
+    case 'system':
+    case 'developer':
+      return [
+        {
+          role: message.role,
+          content:
+            typeof message.content === 'string'
+              ? message.content
+              : message.content.map((part) => part.text).join(''),
+        },
+      ];
+    case 'user':
+      return [
+        {
+          role: 'user',
+          content:
+            typeof message.content === 'string'
+              ? message.content
+              : message.content.map(toResponsesContent),
+        },
+      ];
+    case 'assistant': {
+      const content =
+        typeof message.content === 'string' || !message.content
+          ? message.content
+          : message.content
+              .filter((part) => part.type === 'text')
+              .map(toResponsesContent);
+      const items: ResponseInputItem[] = (message.tool_calls ?? []).map(
+        (toolCall) => ({
+          type: 'function_call',
+          call_id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments,
+        })
+      );
+      // Text sent alongside tool calls precedes them in the conversation.
+      if (content?.length || !items.length) {
+        items.unshift({ role: 'assistant', content: content ?? '' });
+      }
+      return items;
+    }
+    case 'tool':
+      return [
+        {
+          type: 'function_call_output',
+          call_id: message.tool_call_id,
+          output:
+            typeof message.content === 'string'
+              ? message.content
+              : message.content.map((part) => part.text).join(''),
+        },
+      ];
+    default:
+      throw new Error(
+        `role ${message.role} is not supported by the Responses API.`
+      );
+  }
+}
+
+/**
+ * Converts a Genkit MessageData array to Responses API input items. Messages
+ * are converted with `toOpenAiMessages` first and then reshaped into input
+ * messages, function calls and function call outputs.
+ * @param messages The Genkit MessageData array to convert.
+ * @param visualDetailLevel The visual detail level to use for media parts.
+ * @param modelName The name of the model, used in error messages.
+ * @returns The converted Responses API input items.
+ */
+export function toOpenAiResponsesInput(
+  messages: MessageData[],
+  visualDetailLevel: z.infer<
+    typeof OpenAiResponsesConfigSchema
+  >['visualDetailLevel'] = 'auto',
+  modelName?: string
+): ResponseInputItem[] {
+  return toOpenAiMessages(messages, visualDetailLevel, modelName).flatMap(
+    toResponsesInputItems
+  );
+}
+
+/**
+ * Finds the ID of the stored response that produced the latest model message,
+ * so the conversation can be continued with `previous_response_id`.
+ * @param messages The Genkit MessageData array of the request.
+ * @returns The response ID and the index of the message it belongs to, if any.
+ */
+export function findPreviousResponse(
+  messages: MessageData[]
+): { id: string; index: number } | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const id = messages[i].metadata?.responseId;
+    if (messages[i].role === 'model' && typeof id === 'string') {
+      return { id, index: i };
+    }
+  }
+  return undefined;
+}
+
+function toResponsesTools(request: ResponsesRequest): Tool[] {
+  const tools: Tool[] = (request.tools ?? []).map(
+    (tool: ToolDefinition): FunctionTool => ({
+      type: 'function',
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.inputSchema ?? {},
+      strict: false,
+    })
+  );
+  const { webSearch, fileSearch } = request.config ?? {};
+  if (webSearch) {
+    tools.push({
+      type: 'web_search_preview',
+      search_context_size: webSearch.searchContextSize,
+      user_location: webSearch.userLocation
+        ? { type: 'approximate', ...webSearch.userLocation }
+        : undefined,
+    });
+  }
+  if (fileSearch) {
+    tools.push({
+      type: 'file_search',
+      vector_store_ids: fileSearch.vectorStoreIds,
+      max_num_results: fileSearch.maxNumResults,
+    });
+  }
+  return tools;
+}
+
+/**
+ * Converts a Genkit request to a Responses API request body. When the request
+ * continues a stored response, only the messages after it are sent.
+ * @param modelName The name of the OpenAI model to use.
+ * @param request The Genkit GenerateRequest to convert.
+ * @returns The converted Responses API request body.
+ * @throws An error if the specified model is not supported or if an unsupported output format is requested.
+ */
+export function toOpenAiResponsesRequestBody(
+  modelName: string,
+  request: ResponsesRequest
+): ResponseCreateParamsNonStreaming {
+  const model = SUPPORTED_RESPONSES_MODELS[modelName];
+  if (!model) throw new Error(`Unsupported model: ${modelName}`);
+  const previous =
+    request.config?.store === false
+      ? undefined
+      : findPreviousResponse(request.messages);
+  const previousResponseId = request.config?.previousResponseId ?? previous?.id;
+  const format = request.output?.format;
+  const schema = request.output?.schema;
+  const strictOutput =
+    format === 'json' && !!schema && isStrictCompatible(schema);
+  let messages =
+    previous && previousResponseId === previous.id
+      ? request.messages.slice(previous.index + 1)
+      : request.messages;
+  // JSON mode needs the prompt to ask for JSON, and to describe the schema
+  // that strict mode cannot enforce
+  if (format === 'json' && !strictOutput) {
+    messages = withOutputInstructions(messages, schema);
+  }
+  const body: ResponseCreateParamsNonStreaming = {
+    model: request.config?.version || model.version || modelName,
+    input: toOpenAiResponsesInput(
+      messages,
+      request.config?.visualDetailLevel,
+      modelName
+    ),
+    previous_response_id: previousResponseId,
+    store: request.config?.store,
+    temperature: request.config?.temperature,
+    top_p: request.config?.topP,
+    max_output_tokens: request.config?.maxOutputTokens,
+    user: request.config?.user,
+    tools: toResponsesTools(request),
+  };
+
+  if (isReasoningModel(modelName)) {
+    for (const key of PARAMS_UNSUPPORTED_BY_REASONING_MODELS) {
+      delete body[key];
+    }
+  }
+
+  if (strictOutput) {
+    body.text = {
+      format: {
+        type: 'json_schema',
+        name: 'output',
+        schema: toStrictJsonSchema(schema!),
+        strict: true,
+      },
+    };
+  } else if (format === 'json') {
+    // JSON mode only replies with objects, so other roots rely on the output
+    // instructions alone
+    if (!schema || isObjectSchema(schema)) {
+      body.text = { format: { type: 'json_object' } };
+    }
+  } else if (format && format !== 'text') {
+    throw new Error(
+      `${format} format is not supported for the Responses API currently`
+    );
+  }
+  for (const key in body) {
+    if (
+      body[key] === undefined ||
+      (Array.isArray(body[key]) && !body[key].length)
+    )
+      delete body[key];
+  }
+  return body;
+}
+
+/**
+ * Converts a Responses API output item to Genkit parts. Calls to built-in tools
+ * have already been executed by OpenAI, so they are returned as tool response
+ * parts rather than tool requests.
+ * @param item The Responses API output item to convert.
+ * @param jsonMode Whether the output text is a JSON response.
+ * @param outputSchema The requested output schema, if it was sent in strict mode.
+ * @returns The converted Genkit parts.
+ */
+export function fromOpenAiResponseOutputItem(
+  item: ResponseOutputItem,
+  jsonMode = false,
+  outputSchema?: Record<string, any>
+): Part[] {
+  switch (item.type) {
+    case 'message':
+      return item.content
+        .filter((content) => content.type === 'output_text')
+        .map((content): Part => {
+          if (jsonMode) {
+            return {
+              data: fromStrictJsonOutput(
+                extractJson(content.text),
+                outputSchema
+              ),
+            };
+          }
+          return content.annotations.length
+            ? {
+                text: content.text,
+                metadata: { annotations: content.annotations },
+              }
+            : { text: content.text };
+        });
+    case 'function_call':
+      return [
+        {
+          toolRequest: {
+            name: item.name,
+            ref: item.call_id,
+            input: item.arguments ? JSON.parse(item.arguments) : item.arguments,
+          },
+        },
+      ];
+    case 'web_search_call':
+      return [
+        {
+          toolResponse: {
+            name: WEB_SEARCH_TOOL_NAME,
+            ref: item.id,
+            output: { status: item.status },
+          },
+        },
+      ];
+    case 'file_search_call':
+      return [
+        {
+          toolResponse: {
+            name: FILE_SEARCH_TOOL_NAME,
+            ref: item.id,
+            output: {
+              status: item.status,
+              queries: item.queries,
+              results: item.results ?? undefined,
+            },
+          },
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+function fromResponseStatus(response: Response): CandidateData['finishReason'] {
+  switch (response.status) {
+    case 'completed':
+      return 'stop';
+    case 'incomplete':
+      return response.incomplete_details?.reason === 'max_output_tokens'
+        ? 'length'
+        : 'blocked';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Converts a Responses API response to a Genkit GenerateResponseData object.
+ * The response ID is kept in the message metadata so that later turns can
+ * continue the conversation from it.
+ * @param response The Responses API response to convert.
+ * @param jsonMode Whether the output text is a JSON response.
+ * @param outputSchema The requested output schema, if it was sent in strict mode.
+ * @returns The converted Genkit GenerateResponseData object.
+ */
+export function fromOpenAiResponse(
+  response: Response,
+  jsonMode = false,
+  outputSchema?: Record<string, any>
+): GenerateResponseData {
+  const refusal = response.output
+    .flatMap((item) => (item.type === 'message' ? item.content : []))
+    .find((content) => content.type === 'refusal');
+  return {
+    candidates: [
+      {
+        index: 0,
+        finishReason: refusal ? 'blocked' : fromResponseStatus(response),
+        finishMessage: refusal?.refusal ?? response.error?.message,
+        message: {
+          role: 'model',
+          content: refusal
+            ? []
+            : response.output.flatMap((item) =>
+                fromOpenAiResponseOutputItem(item, jsonMode, outputSchema)
+              ),
+          metadata: { responseId: response.id },
+        },
+        custom: {},
+      },
+    ],
+    usage: {
+      inputTokens: response.usage?.input_tokens,
+      outputTokens: response.usage?.output_tokens,
+      totalTokens: response.usage?.total_tokens,
+      thoughtsTokens: response.usage?.output_tokens_details?.reasoning_tokens,
+      cachedContentTokens: response.usage?.input_tokens_details?.cached_tokens,
+    },
+    custom: response,
+  };
+}
+
+/**
+ * Converts a Responses API stream event to a Genkit chunk. Text arrives as
+ * deltas while tool calls are emitted once their output item is done.
+ * @param event The Responses API stream event to convert.
+ * @returns The converted Genkit chunk, or undefined if the event carries no content.
+ */
+export function fromOpenAiResponseStreamEvent(
+  event: ResponseStreamEvent
+): GenerateResponseChunkData | undefined {
+  switch (event.type) {
+    case 'response.output_text.delta':
+      return { index: 0, content: [{ text: event.delta }] };
+    case 'response.output_item.done': {
+      if (event.item.type === 'message') return undefined;
+      const content = fromOpenAiResponseOutputItem(event.item);
+      return content.length ? { index: 0, content } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Creates the runner used by Genkit to interact with a model through the
+ * Responses API.
+ * @param name The name of the OpenAI model.
+ * @param client The OpenAI client instance.
+ * @returns The runner that Genkit will call when the model is invoked.
+ */
+export function responsesRunner(name: string, client: OpenAI) {
+  return async (
+    request: ResponsesRequest,
+    {
+      streamingRequested,
+      sendChunk,
+      abortSignal,
+    }: {
+      streamingRequested: boolean;
+      sendChunk: StreamingCallback<GenerateResponseChunkData>;
+      abortSignal: AbortSignal;
+    }
+  ): Promise<GenerateResponseData> => {
+    let response: Response | undefined;
+    const body = toOpenAiResponsesRequestBody(name, request);
+    if (streamingRequested) {
+      const stream = await client.responses.create(
+        { ...body, stream: true },
+        { signal: abortSignal }
+      );
+      for await (const event of stream) {
+        if (event.type === 'error') {
+          throw new Error(`Responses API stream error: ${event.message}`);
+        }
+        if (
+          event.type === 'response.completed' ||
+          event.type === 'response.incomplete' ||
+          event.type === 'response.failed'
+        ) {
+          response = event.response;
+        }
+        const chunk = fromOpenAiResponseStreamEvent(event);
+        if (chunk) sendChunk(chunk);
+      }
+      if (!response) {
+        throw new Error('Responses API stream ended without a response');
+      }
+    } else {
+      response = await client.responses.create(body, { signal: abortSignal });
+    }
+    const strictSchema =
+      body.text?.format?.type === 'json_schema'
+        ? request.output?.schema
+        : undefined;
+    return fromOpenAiResponse(
+      response,
+      request.output?.format === 'json',
+      strictSchema
+    );
+  };
+}
+
+/**
+ * Defines a model served through the Responses API.
+ * @param name The name of the OpenAI model.
+ * @param client The OpenAI client instance.
+ * @returns The defined model.
+ * @throws An error if the specified model is not supported.
+ */
+export function responsesModel(
+  name: string,
+  client: OpenAI
+): ModelAction<typeof OpenAiResponsesConfigSchema> {
+  const ref = SUPPORTED_RESPONSES_MODELS[name];
+  if (!ref) throw new Error(`Unsupported model: ${name}`);
+
+  return model(
+    {
+      name: ref.name,
+      ...ref.info,
+      configSchema: ref.configSchema,
+    },
+    responsesRunner(name, client)
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+
+import {
+  fromStrictJsonOutput,
+  isStrictCompatible,
+  toStrictJsonSchema,
+} from './schema';
+
+const recipeSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    notes: { type: ['string', 'null'] },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          minutes: { type: 'number' },
+        },
+        required: ['text'],
+      },
+    },
+    author: {
+      oneOf: [{ type: 'string' }, { type: 'object', properties: {} }],
+    },
+  },
+  required: ['title', 'notes'],
+  $schema: 'http://json-schema.org/draft-07/schema#',
+};
+
+describe('toStrictJsonSchema', () => {
+  it('should close objects and make optional properties nullable', () => {
+    expect(toStrictJsonSchema(recipeSchema)).toStrictEqual({
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        notes: { type: ['string', 'null'] },
+        steps: {
+          type: ['array', 'null'],
+          items: {
+            type: 'object',
+            properties: {
+              text: { type: 'string' },
+              minutes: { type: ['number', 'null'] },
+            },
+            required: ['text', 'minutes'],
+            additionalProperties: false,
+          },
+        },
+        author: {
+          anyOf: [
+            { type: 'string' },
+            {
+              type: 'object',
+              properties: {},
+              required: [],
+              additionalProperties: false,
+            },
+            { type: 'null' },
+          ],
+        },
+      },
+      required: ['title', 'notes', 'steps', 'author'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should keep the value schema of records', () => {
+    expect(
+      toStrictJsonSchema({
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: { count: { type: 'number' } },
+        },
+      })
+    ).toStrictEqual({
+      type: 'object',
+      properties: {},
+      required: [],
+      additionalProperties: {
+        type: 'object',
+        properties: { count: { type: ['number', 'null'] } },
+        required: ['count'],
+        additionalProperties: false,
+      },
+    });
+  });
+});
+
+describe('isStrictCompatible', () => {
+  it('should accept object roots without records', () => {
+    expect(isStrictCompatible(recipeSchema)).toBe(true);
+  });
+
+  it('should reject other roots and nested records', () => {
+    expect(isStrictCompatible({ type: 'array', items: {} })).toBe(false);
+    expect(
+      isStrictCompatible({
+        type: 'object',
+        properties: {
+          scores: {
+            type: 'array',
+            items: { type: 'object', additionalProperties: { type: 'number' } },
+          },
+        },
+      })
+    ).toBe(false);
+  });
+});
+
+describe('fromStrictJsonOutput', () => {
+  it('should drop nulls only where the original schema does not allow them', () => {
+    expect(
+      fromStrictJsonOutput(
+        {
+          title: 'Pancakes',
+          notes: null,
+          steps: [{ text: 'Mix', minutes: null }],
+          author: null,
+        },
+        recipeSchema
+      )
+    ).toStrictEqual({
+      title: 'Pancakes',
+      notes: null,
+      steps: [{ text: 'Mix' }],
+    });
+  });
+
+  it('should drop nulls inside records, unions and references', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        shapes: {
+          type: 'array',
+          items: {
+            anyOf: [
+              {
+                type: 'object',
+                properties: {
+                  kind: { const: 'circle' },
+                  radius: { type: 'number' },
+                },
+                required: ['kind'],
+              },
+              { $ref: '#/$defs/square' },
+            ],
+          },
+        },
+        counts: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              total: { type: 'number' },
+              note: { type: 'string' },
+            },
+            required: ['total'],
+          },
+        },
+      },
+      required: ['shapes', 'counts'],
+      $defs: {
+        square: {
+          type: 'object',
+          properties: {
+            kind: { const: 'square' },
+            side: { type: 'number' },
+            label: { type: 'string' },
+          },
+          required: ['kind', 'side'],
+        },
+      },
+    };
+    expect(
+      fromStrictJsonOutput(
+        {
+          shapes: [
+            { kind: 'circle', radius: null },
+            { kind: 'square', side: 2, label: null },
+          ],
+          counts: { a: { total: 1, note: null } },
+        },
+        schema
+      )
+    ).toStrictEqual({
+      shapes: [{ kind: 'circle' }, { kind: 'square', side: 2 }],
+      counts: { a: { total: 1 } },
+    });
+  });
+
+  it('should return values untouched without a schema', () => {
+    expect(fromStrictJsonOutput({ a: null })).toStrictEqual({ a: null });
+  });
+});
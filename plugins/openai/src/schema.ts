@@ -0,0 +1,275 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { MessageData } from 'genkit';
+
+type JsonSchema = Record<string, any>;
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasType(schema: JsonSchema, type: string): boolean {
+  return Array.isArray(schema.type)
+    ? schema.type.includes(type)
+    : schema.type === type;
+}
+
+/** Whether a schema describes objects, e.g. the root of a JSON mode reply. */
+export function isObjectSchema(schema: JsonSchema): boolean {
+  return hasType(schema, 'object') || schema.properties !== undefined;
+}
+
+/** Whether a schema, or one nested in it, is a record of a value schema. */
+function hasRecord(schema: JsonSchema): boolean {
+  if (isSchema(schema.additionalProperties)) return true;
+  const nested: unknown[] = [
+    ...Object.values(schema.properties ?? {}),
+    ...Object.values(schema.$defs ?? {}),
+    ...Object.values(schema.definitions ?? {}),
+    ...(Array.isArray(schema.items) ? schema.items : [schema.items]),
+    ...(schema.anyOf ?? []),
+    ...(schema.oneOf ?? []),
+    ...(schema.allOf ?? []),
+  ];
+  return nested.some((item) => isSchema(item) && hasRecord(item));
+}
+
+/**
+ * Checks whether OpenAI strict mode can enforce a JSON schema. Strict mode
+ * needs an object at the root and closes every object, so schemas with
+ * another root or with records have to be sent without it.
+ * @param schema The original JSON schema.
+ * @returns Whether `toStrictJsonSchema` can rewrite the schema for strict mode.
+ */
+export function isStrictCompatible(schema: JsonSchema): boolean {
+  return (
+    isObjectSchema(schema) &&
+    !schema.anyOf &&
+    !schema.oneOf &&
+    !hasRecord(schema)
+  );
+}
+
+function allowsNull(schema: JsonSchema): boolean {
+  if (schema.type === 'null') return true;
+  if (Array.isArray(schema.type)) return schema.type.includes('null');
+  const variants: JsonSchema[] | undefined = schema.anyOf ?? schema.oneOf;
+  return variants?.some(allowsNull) ?? false;
+}
+
+function toNullable(schema: JsonSchema): JsonSchema {
+  if (allowsNull(schema)) return schema;
+  if (typeof schema.type === 'string') {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  if (Array.isArray(schema.type)) {
+    return { ...schema, type: [...schema.type, 'null'] };
+  }
+  if (schema.anyOf) {
+    return { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function mapSchemas(
+  schemas: Record<string, JsonSchema>
+): Record<string, JsonSchema> {
+  return Object.fromEntries(
+    Object.entries(schemas).map(([key, value]) => [
+      key,
+      toStrictJsonSchema(value),
+    ])
+  );
+}
+
+/**
+ * Rewrites a JSON schema into the subset accepted by OpenAI strict mode:
+ * every object is closed and lists all of its properties as required, and
+ * properties that were optional become nullable instead.
+ * @param schema The JSON schema to rewrite.
+ * @returns The strict-compatible JSON schema.
+ */
+export function toStrictJsonSchema(schema: JsonSchema): JsonSchema {
+  if (typeof schema !== 'object' || schema === null) return schema;
+  const { $schema, oneOf, ...rest } = schema;
+  const out: JsonSchema = { ...rest };
+  // Strict mode understands anyOf but not oneOf
+  const variants: JsonSchema[] | undefined = schema.anyOf ?? oneOf;
+  if (variants) out.anyOf = variants.map(toStrictJsonSchema);
+  if (schema.$defs) out.$defs = mapSchemas(schema.$defs);
+  if (schema.definitions) out.definitions = mapSchemas(schema.definitions);
+  if (schema.items) {
+    out.items = Array.isArray(schema.items)
+      ? schema.items.map(toStrictJsonSchema)
+      : toStrictJsonSchema(schema.items);
+  }
+  if (isObjectSchema(schema)) {
+    const properties: Record<string, JsonSchema> = schema.properties ?? {};
+    const required = new Set<string>(schema.required ?? []);
+    out.properties = Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [
+        key,
+        required.has(key)
+          ? toStrictJsonSchema(value)
+          : toNullable(toStrictJsonSchema(value)),
+      ])
+    );
+    out.required = Object.keys(properties);
+    // Records keep the schema of their values; other objects are closed
+    out.additionalProperties = isSchema(schema.additionalProperties)
+      ? toStrictJsonSchema(schema.additionalProperties)
+      : false;
+  }
+  return out;
+}
+
+/**
+ * Follows local references such as `#/$defs/Step` until it reaches a schema
+ * that is not a reference.
+ */
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  const seen = new Set<string>();
+  while (typeof schema.$ref === 'string' && schema.$ref.startsWith('#')) {
+    if (seen.has(schema.$ref)) break;
+    seen.add(schema.$ref);
+    const target = schema.$ref
+      .slice(1)
+      .split('/')
+      .filter(Boolean)
+      .map((token: string) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node: any, token: string) => node?.[token], root);
+    if (!isSchema(target)) break;
+    schema = target;
+  }
+  return schema;
+}
+
+/**
+ * Checks whether a value produced in strict mode fits a variant of a union:
+ * objects carry every property of their variant, and no other, with the
+ * `const` and `enum` values it declares.
+ */
+function matchesVariant(value: any, schema: JsonSchema): boolean {
+  if (Array.isArray(value)) {
+    return hasType(schema, 'array') || schema.items !== undefined;
+  }
+  if (!isObjectSchema(schema)) return false;
+  const properties: Record<string, JsonSchema> = schema.properties ?? {};
+  const closed = !isSchema(schema.additionalProperties);
+  return (
+    Object.keys(properties).every((key) => key in value) &&
+    Object.entries(value).every(([key, item]) => {
+      const itemSchema = properties[key];
+      if (!itemSchema) return !closed;
+      if ('const' in itemSchema) return item === itemSchema.const;
+      if (Array.isArray(itemSchema.enum)) return itemSchema.enum.includes(item);
+      return true;
+    })
+  );
+}
+
+function restore(value: any, schema: JsonSchema, root: JsonSchema): any {
+  if (value === null || typeof value !== 'object') return value;
+  schema = resolveRef(schema, root);
+  const variants: JsonSchema[] | undefined = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const variant = variants
+      .map((v) => resolveRef(v, root))
+      .find((v) => matchesVariant(value, v));
+    return variant ? restore(value, variant, root) : value;
+  }
+  if (Array.isArray(value)) {
+    return isSchema(schema.items)
+      ? value.map((item) => restore(item, schema.items, root))
+      : value;
+  }
+  if (!isObjectSchema(schema)) return value;
+  const properties: Record<string, JsonSchema> = schema.properties ?? {};
+  const required = new Set<string>(schema.required ?? []);
+  const out: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const itemSchema: JsonSchema | undefined =
+      properties[key] ??
+      (isSchema(schema.additionalProperties)
+        ? schema.additionalProperties
+        : undefined);
+    if (
+      item === null &&
+      properties[key] &&
+      !required.has(key) &&
+      !allowsNull(resolveRef(properties[key], root))
+    ) {
+      continue;
+    }
+    out[key] = itemSchema ? restore(item, itemSchema, root) : item;
+  }
+  return out;
+}
+
+/**
+ * Reverses the optional-to-nullable rewrite of `toStrictJsonSchema` on a value
+ * produced in strict mode, dropping `null` properties the original schema
+ * does not allow so the value validates against it again. References and
+ * unions are followed, picking the variant the value fits.
+ * @param value The value returned by the model.
+ * @param schema The original (non-strict) JSON schema.
+ * @returns The value with the strict-mode placeholders removed.
+ */
+export function fromStrictJsonOutput(value: any, schema?: JsonSchema): any {
+  return schema ? restore(value, schema, schema) : value;
+}
+
+/**
+ * Adds JSON output instructions to the last user message, like Genkit does
+ * when it simulates constrained output. Requests that fall back to JSON mode
+ * need them: the API cannot enforce their schema, and it rejects JSON mode
+ * when the prompt does not mention JSON. Messages that already carry output
+ * instructions are returned as is.
+ * @param messages The Genkit messages of the request.
+ * @param schema The requested output schema, if any.
+ * @returns The messages with the output instructions.
+ */
+export function withOutputInstructions(
+  messages: MessageData[],
+  schema?: JsonSchema
+): MessageData[] {
+  let index = messages.length - 1;
+  while (index >= 0 && messages[index].role !== 'user') index--;
+  if (index < 0) return messages;
+  const content = [...messages[index].content];
+  const outputIndex = content.findIndex(
+    (part) => part.metadata?.purpose === 'output'
+  );
+  if (outputIndex >= 0 && !content[outputIndex].metadata?.pending) {
+    return messages;
+  }
+  const instructions = schema
+    ? `\n\nOutput should be in JSON format and conform to the following schema:\n\n\`\`\`\n${JSON.stringify(schema)}\n\`\`\`\n`
+    : '\n\nOutput should be in JSON format.\n';
+  const part = {
+    text: instructions,
+    metadata: { purpose: 'output', source: 'default' },
+  };
+  if (outputIndex >= 0) {
+    content[outputIndex] = part;
+  } else {
+    content.push(part);
+  }
+  return messages.map((message, i) =>
+    i === index ? { ...message, content } : message
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import type { GenerateResponseChunkData } from 'genkit';
+import type OpenAI from 'openai';
+
+import { ttsRunner } from './tts';
+
+function fakeClient(pieces: string[]) {
+  const create = jest.fn(async (_body: any, _options?: any) => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const piece of pieces) {
+          controller.enqueue(new TextEncoder().encode(piece));
+        }
+        controller.close();
+      },
+    });
+    return new Response(stream);
+  });
+  return {
+    client: { audio: { speech: { create } } } as unknown as OpenAI,
+    create,
+  };
+}
+
+function dataUrl(contentType: string, text: string) {
+  return `data:${contentType};base64,${Buffer.from(text).toString('base64')}`;
+}
+
+const abortSignal = new AbortController().signal;
+
+describe('ttsRunner', () => {
+  it('should return the whole audio without streaming', async () => {
+    const { client, create } = fakeClient(['abc', 'def']);
+    const response = await ttsRunner('gpt-4o-mini-tts', client)(
+      {
+        messages: [{ role: 'user', content: [{ text: 'Hello' }] }],
+        config: { voice: 'nova', instructions: 'Speak cheerfully.' },
+      },
+      { abortSignal }
+    );
+    expect(create).toHaveBeenCalledWith(
+      {
+        model: 'gpt-4o-mini-tts',
+        input: 'Hello',
+        voice: 'nova',
+        instructions: 'Speak cheerfully.',
+      },
+      { signal: abortSignal }
+    );
+    expect(response.candidates?.[0].message.content).toStrictEqual([
+      {
+        media: {
+          contentType: 'audio/mpeg',
+          url: dataUrl('audio/mpeg', 'abcdef'),
+        },
+      },
+    ]);
+  });
+
+  it('should reject instructions for models without them', async () => {
+    const { client, create } = fakeClient(['abc']);
+    await expect(
+      ttsRunner('tts-1-hd', client)(
+        {
+          messages: [{ role: 'user', content: [{ text: 'Hello' }] }],
+          config: { voice: 'nova', instructions: 'Speak cheerfully.' },
+        },
+        { abortSignal }
+      )
+    ).rejects.toThrow(
+      'Model tts-1-hd does not support instructions; use gpt-4o-mini-tts to steer the voice.'
+    );
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should stream audio chunks as they arrive', async () => {
+    const { client } = fakeClient(['abc', 'def']);
+    const chunks: GenerateResponseChunkData[] = [];
+    const response = await ttsRunner('tts-1', client)(
+      {
+        messages: [{ role: 'user', content: [{ text: 'Hello' }] }],
+        config: { voice: 'alloy', response_format: 'pcm' },
+      },
+      {
+        streamingRequested: true,
+        sendChunk: (chunk) => chunks.push(chunk),
+        abortSignal,
+      }
+    );
+    expect(chunks).toStrictEqual([
+      {
+        index: 0,
+        content: [
+          {
+            media: {
+              contentType: 'audio/L16',
+              url: dataUrl('audio/L16', 'abc'),
+            },
+          },
+        ],
+      },
+      {
+        index: 0,
+        content: [
+          {
+            media: {
+              contentType: 'audio/L16',
+              url: dataUrl('audio/L16', 'def'),
+            },
+          },
+        ],
+      },
+    ]);
+    expect(response.candidates?.[0].message.content[0].media?.url).toBe(
+      dataUrl('audio/L16', 'abcdef')
+    );
+  });
+});
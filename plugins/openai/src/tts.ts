@@ -13,10 +13,16 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
-import type { GenerateRequest, GenerateResponseData, Genkit } from 'genkit';
+import type {
+  GenerateRequest,
+  GenerateResponseChunkData,
+  GenerateResponseData,
+  StreamingCallback,
+} from 'genkit';
 import { GenerationCommonConfigSchema, Message, z } from 'genkit';
 import type { ModelAction } from 'genkit/model';
 import { modelRef } from 'genkit/model';
+import { model } from 'genkit/plugin';
 import type OpenAI from 'openai';
 import { type SpeechCreateParams } from 'openai/resources/audio/index.mjs';
 
@@ -29,6 +35,8 @@ export const TTSConfigSchema = GenerationCommonConfigSchema.extend({
   response_format: z
     .enum(['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'])
     .optional(),
+  /** Instructions on the tone and style of the voice. gpt-4o-mini-tts only. */
+  instructions: z.string().optional(),
 });
 
 export const tts1 = modelRef({
@@ -96,12 +104,19 @@ function toTTSRequest(
   request: GenerateRequest<typeof TTSConfigSchema>
 ): SpeechCreateParams {
   const mappedModelName = request.config?.version || modelName;
+  // tts-1 and tts-1-hd, and their versions, reject instructions
+  if (request.config?.instructions && mappedModelName.startsWith('tts-1')) {
+    throw new Error(
+      `Model ${mappedModelName} does not support instructions; use gpt-4o-mini-tts to steer the voice.`
+    );
+  }
   const options: SpeechCreateParams = {
     model: mappedModelName,
     input: new Message(request.messages[0]).text,
     voice: request.config?.voice ?? 'alloy',
     speed: request.config?.speed,
     response_format: request.config?.response_format,
+    instructions: request.config?.instructions,
   };
   for (const k in options) {
     if (options[k] === undefined) {
@@ -115,7 +130,6 @@ function toGenerateResponse(
   result: Buffer,
   responseFormat: z.infer<typeof TTSConfigSchema>['response_format'] = 'mp3'
 ): GenerateResponseData {
-  const mediaType = RESPONSE_FORMAT_MEDIA_TYPES[responseFormat];
   return {
     candidates: [
       {
@@ -123,41 +137,87 @@ function toGenerateResponse(
         finishReason: 'stop',
         message: {
           role: 'model',
-          content: [
-            {
-              media: {
-                contentType: mediaType,
-                url: `data:${mediaType};base64,${result.toString('base64')}`,
-              },
-            },
-          ],
+          content: [toMediaPart(result, responseFormat)],
         },
       },
     ],
   };
 }
 
+function toMediaPart(
+  audio: Buffer,
+  responseFormat: z.infer<typeof TTSConfigSchema>['response_format'] = 'mp3'
+) {
+  const mediaType = RESPONSE_FORMAT_MEDIA_TYPES[responseFormat];
+  return {
+    media: {
+      contentType: mediaType,
+      url: `data:${mediaType};base64,${audio.toString('base64')}`,
+    },
+  };
+}
+
+/**
+ * Creates the runner of a text-to-speech model. When streaming is requested,
+ * each piece of audio is sent as a media chunk as soon as it arrives, which
+ * works best with the `pcm` and `opus` formats. The final response holds the
+ * whole audio either way.
+ * @param name The name of the text-to-speech model.
+ * @param client The OpenAI client instance.
+ * @returns The runner that Genkit will call when the model is invoked.
+ */
+export function ttsRunner(name: string, client: OpenAI) {
+  return async (
+    request: GenerateRequest<typeof TTSConfigSchema>,
+    {
+      streamingRequested,
+      sendChunk,
+      abortSignal,
+    }: {
+      streamingRequested?: boolean;
+      sendChunk?: StreamingCallback<GenerateResponseChunkData>;
+      abortSignal?: AbortSignal;
+    }
+  ): Promise<GenerateResponseData> => {
+    const ttsRequest = toTTSRequest(name, request);
+    const result = await client.audio.speech.create(ttsRequest, {
+      signal: abortSignal,
+    });
+    if (!streamingRequested || !sendChunk || !result.body) {
+      const resultArrayBuffer = await result.arrayBuffer();
+      const resultBuffer = Buffer.from(new Uint8Array(resultArrayBuffer));
+      return toGenerateResponse(resultBuffer, ttsRequest.response_format);
+    }
+    const chunks: Buffer[] = [];
+    for await (const data of result.body as AsyncIterable<Uint8Array>) {
+      const chunk = Buffer.from(data);
+      chunks.push(chunk);
+      sendChunk({
+        index: 0,
+        content: [toMediaPart(chunk, ttsRequest.response_format)],
+      });
+    }
+    return toGenerateResponse(
+      Buffer.concat(chunks),
+      ttsRequest.response_format
+    );
+  };
+}
+
 export function ttsModel(
-  ai: Genkit,
   name: string,
   client: OpenAI
 ): ModelAction<typeof TTSConfigSchema> {
   const modelId = `openai/${name}`;
-  const model = SUPPORTED_TTS_MODELS[name];
-  if (!model) throw new Error(`Unsupported model: ${name}`);
+  const ref = SUPPORTED_TTS_MODELS[name];
+  if (!ref) throw new Error(`Unsupported model: ${name}`);
 
-  return ai.defineModel<typeof TTSConfigSchema>(
+  return model<typeof TTSConfigSchema>(
     {
       name: modelId,
-      ...model.info,
-      configSchema: model.configSchema,
+      ...ref.info,
+      configSchema: ref.configSchema,
     },
-    async (request) => {
-      const ttsRequest = toTTSRequest(name, request);
-      const result = await client.audio.speech.create(ttsRequest);
-      const resultArrayBuffer = await result.arrayBuffer();
-      const resultBuffer = Buffer.from(new Uint8Array(resultArrayBuffer));
-      return toGenerateResponse(resultBuffer, ttsRequest.response_format);
-    }
+    ttsRunner(name, client)
   );
 }
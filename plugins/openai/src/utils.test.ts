@@ -0,0 +1,55 @@
+/**
+ * Copyright 2024 Bloom Labs Inc
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, expect, it } from '@jest/globals';
+
+import { mapWithConcurrency } from './utils';
+
+describe('mapWithConcurrency', () => {
+  it('should keep the order of the items', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (ms) => {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return ms / 10;
+    });
+    expect(results).toStrictEqual([3, 1, 2]);
+  });
+
+  it('should not start calls after one rejects', async () => {
+    const calls: number[] = [];
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (x) => {
+        calls.push(x);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        if (x === 1) {
+          throw new Error('failed');
+        }
+        return x;
+      })
+    ).rejects.toThrow('failed');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(calls).toStrictEqual([1, 2]);
+  });
+
+  it('should reject a concurrency below one or NaN', async () => {
+    for (const concurrency of [0, -1, NaN]) {
+      await expect(
+        mapWithConcurrency([1], concurrency, async (x) => x)
+      ).rejects.toThrow(
+        `Concurrency must be a positive integer, got ${concurrency}.`
+      );
+    }
+  });
+});
@@ -13,24 +13,102 @@
  * limitations under the License.
  */
 
-import type { GenerateRequest, GenerateResponseData, Genkit } from 'genkit';
+import type {
+  GenerateRequest,
+  GenerateResponseChunkData,
+  GenerateResponseData,
+  Part,
+  StreamingCallback,
+} from 'genkit';
 import { GenerationCommonConfigSchema, Message, z } from 'genkit';
 import type { ModelAction } from 'genkit/model';
 import { modelRef } from 'genkit/model';
+import { model } from 'genkit/plugin';
 import type OpenAI from 'openai';
 import {
   type TranscriptionCreateParams,
+  type TranscriptionCreateParamsNonStreaming,
   type Transcription,
+  type TranscriptionVerbose,
 } from 'openai/resources/audio/index.mjs';
 
+import { type AudioChunk, audioDuration, splitAudio } from './audio.js';
+import { mapWithConcurrency } from './utils.js';
+
 export const Whisper1ConfigSchema = GenerationCommonConfigSchema.extend({
   language: z.string().optional(),
   timestamp_granularities: z.array(z.enum(['word', 'segment'])).optional(),
   response_format: z
     .enum(['json', 'text', 'srt', 'verbose_json', 'vtt'])
     .optional(),
+  /**
+   * Maximum length in seconds of the chunks long WAV or MP3 audio is split
+   * into. Audio over the upload size limit is always split.
+   */
+  chunkDuration: z.number().positive().optional(),
+  /** Length in seconds of the audio shared by consecutive chunks. */
+  chunkOverlap: z.number().min(0).optional(),
+});
+
+export const TranscriptSegmentSchema = z.object({
+  id: z.number(),
+  seek: z.number(),
+  start: z.number().describe('Start time of the segment in seconds.'),
+  end: z.number().describe('End time of the segment in seconds.'),
+  text: z.string(),
+  tokens: z.array(z.number()),
+  temperature: z.number(),
+  avgLogprob: z.number(),
+  compressionRatio: z.number(),
+  noSpeechProb: z.number(),
+});
+
+export const TranscriptWordSchema = z.object({
+  word: z.string(),
+  start: z.number().describe('Start time of the word in seconds.'),
+  end: z.number().describe('End time of the word in seconds.'),
+});
+
+/** The structured transcript returned for the `verbose_json` format. */
+export const TranscriptSchema = z.object({
+  text: z.string(),
+  language: z.string(),
+  duration: z.number().describe('Duration of the audio in seconds.'),
+  segments: z.array(TranscriptSegmentSchema).optional(),
+  words: z.array(TranscriptWordSchema).optional(),
 });
 
+export type TranscriptSegment = z.infer<typeof TranscriptSegmentSchema>;
+export type TranscriptWord = z.infer<typeof TranscriptWordSchema>;
+export type Transcript = z.infer<typeof TranscriptSchema>;
+
+export const SUBTITLE_CONTENT_TYPES = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+};
+
+/** The upload limit of the transcriptions endpoint. */
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+/** Chunk length used when audio is split only because of its size. */
+const DEFAULT_CHUNK_DURATION = 600;
+const DEFAULT_CHUNK_OVERLAP = 2;
+const MAX_CONCURRENT_CHUNKS = 4;
+
+const AUDIO_FILE_EXTENSIONS = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+};
+
+type TranscriptionParams = Omit<TranscriptionCreateParamsNonStreaming, 'file'>;
+
 export const whisper1 = modelRef({
   name: 'openai/whisper-1',
   info: {
@@ -61,26 +139,39 @@ export const gpt4oTranscribe = modelRef({
   configSchema: Whisper1ConfigSchema,
 });
 
-function toWhisper1Request(
-  request: GenerateRequest<typeof Whisper1ConfigSchema>
-): TranscriptionCreateParams {
-  const message = new Message(request.messages[0]);
-  const media = message.media;
+/**
+ * Reads the audio to transcribe from the first media part of the request.
+ */
+function toAudioInput(request: GenerateRequest<typeof Whisper1ConfigSchema>): {
+  data: Buffer;
+  contentType: string;
+} {
+  const media = new Message(request.messages[0]).media;
   if (!media?.url) {
     throw new Error('No media found in the request');
   }
-  const mediaBuffer = Buffer.from(
-    media.url.slice(media.url.indexOf(',') + 1),
-    'base64'
-  );
-  const mediaFile = new File([mediaBuffer], 'input', {
-    type:
+  return {
+    data: Buffer.from(media.url.slice(media.url.indexOf(',') + 1), 'base64'),
+    contentType:
       media.contentType ??
       media.url.slice('data:'.length, media.url.indexOf(';')),
+  };
+}
+
+function toAudioFile(data: Buffer, contentType: string, name = 'input'): File {
+  const extension = AUDIO_FILE_EXTENSIONS[contentType];
+  return new File([data], extension ? `${name}.${extension}` : name, {
+    type: contentType,
   });
-  const options: TranscriptionCreateParams = {
-    model: 'whisper-1',
-    file: mediaFile,
+}
+
+function toWhisper1Request(
+  modelName: string,
+  request: GenerateRequest<typeof Whisper1ConfigSchema>
+): TranscriptionParams {
+  const message = new Message(request.messages[0]);
+  const options: TranscriptionParams = {
+    model: request.config?.version || modelName,
     prompt: message.text,
     temperature: request.config?.temperature,
     language: request.config?.language,
@@ -102,7 +193,12 @@ function toWhisper1Request(
   if (outputFormat === 'media') {
     throw new Error(`Output format ${outputFormat} is not supported.`);
   }
-  options.response_format = customFormat || outputFormat || 'text';
+  // Timestamps are only returned in the verbose format
+  options.response_format =
+    customFormat ||
+    (options.timestamp_granularities?.length ? 'verbose_json' : undefined) ||
+    outputFormat ||
+    'text';
   for (const k in options) {
     if (options[k] === undefined) {
       delete options[k];
@@ -111,9 +207,197 @@ function toWhisper1Request(
   return options;
 }
 
-function toGenerateResponse(
-  result: Transcription | string
-): GenerateResponseData {
+/**
+ * Converts a verbose transcription into a structured transcript.
+ * @param result The verbose transcription returned by the API.
+ * @returns The transcript with typed segments and words.
+ */
+export function toTranscript(result: TranscriptionVerbose): Transcript {
+  const transcript: Transcript = {
+    text: result.text,
+    language: result.language,
+    duration: result.duration,
+  };
+  if (result.segments) {
+    transcript.segments = result.segments.map((segment) => ({
+      id: segment.id,
+      seek: segment.seek,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      tokens: segment.tokens,
+      temperature: segment.temperature,
+      avgLogprob: segment.avg_logprob,
+      compressionRatio: segment.compression_ratio,
+      noSpeechProb: segment.no_speech_prob,
+    }));
+  }
+  if (result.words) {
+    transcript.words = result.words.map(({ word, start, end }) => ({
+      word,
+      start,
+      end,
+    }));
+  }
+  return transcript;
+}
+
+/**
+ * Joins the transcripts of two overlapping chunks, dropping the words at the
+ * start of the second one that repeat the end of the first one. The result
+ * always starts with `first`, so it can be streamed as deltas.
+ * @param first The transcript so far.
+ * @param second The transcript of the next chunk.
+ * @param maxOverlap The largest number of repeated words looked for.
+ * @returns The joined transcript.
+ */
+export function mergeTranscriptText(
+  first: string,
+  second: string,
+  maxOverlap = 20
+): string {
+  const next = second.trim();
+  if (!first) return next;
+  if (!next) return first;
+  const normalize = (word: string) =>
+    word.toLowerCase().replace(/[.,!?;:"'()[\]\u2018-\u201d\u2026-]/g, '');
+  const firstWords = first.split(/\s+/).map(normalize);
+  const nextWords = next.split(/\s+/);
+  const nextNormalized = nextWords.map(normalize);
+  const limit = Math.min(maxOverlap, firstWords.length, nextWords.length);
+  for (let k = limit; k > 0; k--) {
+    const tail = firstWords.slice(firstWords.length - k);
+    if (tail.every((word, i) => word === nextNormalized[i])) {
+      const rest = nextWords.slice(k).join(' ');
+      return rest ? `${first} ${rest}` : first;
+    }
+  }
+  return `${first} ${next}`;
+}
+
+/**
+ * Stitches the transcripts of overlapping chunks back together. Timestamps
+ * are shifted to the position of each chunk, and each chunk keeps the
+ * segments and words that fall before the middle of its overlap with the
+ * next chunk.
+ * @param chunks The audio chunks, in order.
+ * @param transcripts The transcript of each chunk.
+ * @returns The transcript of the whole audio.
+ */
+export function stitchTranscripts(
+  chunks: Pick<AudioChunk, 'start' | 'end'>[],
+  transcripts: Transcript[]
+): Transcript {
+  const segments: TranscriptSegment[] = [];
+  const words: TranscriptWord[] = [];
+  let text = '';
+  transcripts.forEach((transcript, i) => {
+    const offset = chunks[i].start;
+    const from = i === 0 ? -Infinity : (offset + chunks[i - 1].end) / 2;
+    const to =
+      i === chunks.length - 1
+        ? Infinity
+        : (chunks[i + 1].start + chunks[i].end) / 2;
+    const owns = (start: number, end: number) => {
+      const middle = offset + (start + end) / 2;
+      return middle >= from && middle < to;
+    };
+    for (const segment of transcript.segments ?? []) {
+      if (!owns(segment.start, segment.end)) continue;
+      segments.push({
+        ...segment,
+        id: segments.length,
+        // Seek positions are counted in 10ms frames
+        seek: segment.seek + Math.round(offset * 100),
+        start: segment.start + offset,
+        end: segment.end + offset,
+      });
+    }
+    for (const word of transcript.words ?? []) {
+      if (!owns(word.start, word.end)) continue;
+      words.push({
+        ...word,
+        start: word.start + offset,
+        end: word.end + offset,
+      });
+    }
+    text = mergeTranscriptText(text, transcript.text);
+  });
+  const last = transcripts.length - 1;
+  const stitched: Transcript = {
+    text: segments.length
+      ? segments.map((segment) => segment.text.trim()).join(' ')
+      : text,
+    language: transcripts[0]?.language ?? '',
+    duration: chunks[last].start + transcripts[last].duration,
+  };
+  if (transcripts.some((transcript) => transcript.segments)) {
+    stitched.segments = segments;
+  }
+  if (transcripts.some((transcript) => transcript.words)) {
+    stitched.words = words;
+  }
+  return stitched;
+}
+
+function toTimestamp(seconds: number, separator: string): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return (
+    `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:` +
+    `${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`
+  );
+}
+
+/**
+ * Formats transcript segments as SRT or WebVTT subtitles.
+ * @param segments The transcript segments.
+ * @param format The subtitle format.
+ * @returns The subtitles.
+ */
+export function toSubtitles(
+  segments: TranscriptSegment[],
+  format: 'srt' | 'vtt'
+): string {
+  const cues = segments.map((segment, i) => {
+    const separator = format === 'srt' ? ',' : '.';
+    const timing = `${toTimestamp(segment.start, separator)} --> ${toTimestamp(
+      segment.end,
+      separator
+    )}`;
+    const text = segment.text.trim();
+    return format === 'srt'
+      ? `${i + 1}\n${timing}\n${text}\n`
+      : `${timing}\n${text}\n`;
+  });
+  return (format === 'vtt' ? 'WEBVTT\n\n' : '') + cues.join('\n');
+}
+
+function toContent(
+  result: Transcription | TranscriptionVerbose | string,
+  responseFormat?: TranscriptionCreateParams['response_format']
+): Part[] {
+  if (typeof result === 'string') {
+    if (responseFormat === 'srt' || responseFormat === 'vtt') {
+      return [
+        {
+          text: result,
+          metadata: { contentType: SUBTITLE_CONTENT_TYPES[responseFormat] },
+        },
+      ];
+    }
+    return [{ text: result }];
+  }
+  if (responseFormat === 'verbose_json') {
+    return [
+      { text: result.text },
+      { data: toTranscript(result as TranscriptionVerbose) },
+    ];
+  }
+  return [{ text: result.text }];
+}
+
+function toGenerateResponse(content: Part[]): GenerateResponseData {
   return {
     candidates: [
       {
@@ -121,11 +405,7 @@ function toGenerateResponse(
         finishReason: 'stop',
         message: {
           role: 'model',
-          content: [
-            {
-              text: typeof result === 'string' ? result : result.text,
-            },
-          ],
+          content,
         },
       },
     ],
@@ -137,29 +417,192 @@ export const SUPPORTED_STT_MODELS = {
   'whisper-1': whisper1,
 };
 
+/**
+ * Splits the audio when it is over the upload limit or longer than the
+ * configured chunk duration.
+ * @returns The chunks, or undefined when the audio is sent in one piece.
+ */
+function toAudioChunks(
+  audio: { data: Buffer; contentType: string },
+  config?: z.infer<typeof Whisper1ConfigSchema>
+): AudioChunk[] | undefined {
+  const oversized = audio.data.length > MAX_UPLOAD_BYTES;
+  const maxDuration = config?.chunkDuration;
+  if (
+    !oversized &&
+    !(
+      maxDuration &&
+      (audioDuration(audio.data, audio.contentType) ?? 0) > maxDuration
+    )
+  ) {
+    return undefined;
+  }
+  const chunks = splitAudio(audio.data, audio.contentType, {
+    maxDuration: maxDuration ?? DEFAULT_CHUNK_DURATION,
+    overlap: config?.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP,
+    maxBytes: MAX_UPLOAD_BYTES,
+  });
+  if (!chunks && oversized) {
+    throw new Error(
+      `Audio of type ${audio.contentType} is over the 25 MB upload limit and cannot be split. Use WAV or MP3 audio, or split it beforehand.`
+    );
+  }
+  return chunks && chunks.length > 1 ? chunks : undefined;
+}
+
+/**
+ * Transcribes the chunks of long audio concurrently and stitches the results.
+ * Timed formats are requested as `verbose_json` for every chunk so the
+ * segments can be merged. Plain transcripts are streamed in order as the
+ * chunks complete.
+ */
+async function transcribeChunks(
+  client: OpenAI,
+  params: TranscriptionParams,
+  chunks: AudioChunk[],
+  sendChunk?: StreamingCallback<GenerateResponseChunkData>,
+  abortSignal?: AbortSignal
+): Promise<Part[]> {
+  const responseFormat = params.response_format;
+  const timed =
+    responseFormat === 'verbose_json' ||
+    responseFormat === 'srt' ||
+    responseFormat === 'vtt';
+  const done: (Transcription | undefined)[] = [];
+  let text = '';
+  let streamed = 0;
+  const results = await mapWithConcurrency(
+    chunks.map((chunk, index) => ({ chunk, index })),
+    MAX_CONCURRENT_CHUNKS,
+    async ({ chunk, index }) => {
+      const result = await client.audio.transcriptions.create(
+        {
+          ...params,
+          response_format: timed ? 'verbose_json' : 'json',
+          file: toAudioFile(chunk.data, chunk.contentType, `chunk-${index}`),
+          stream: false,
+        },
+        { signal: abortSignal }
+      );
+      done[index] = result;
+      while (!timed && done[streamed]) {
+        const merged = mergeTranscriptText(text, done[streamed]!.text);
+        if (sendChunk && merged.length > text.length) {
+          sendChunk({
+            index: 0,
+            content: [{ text: merged.slice(text.length) }],
+          });
+        }
+        text = merged;
+        streamed++;
+      }
+      return result;
+    }
+  );
+  if (!timed) return [{ text }];
+  const transcript = stitchTranscripts(
+    chunks,
+    results.map((result) => toTranscript(result as TranscriptionVerbose))
+  );
+  if (responseFormat === 'verbose_json') {
+    return [{ text: transcript.text }, { data: transcript }];
+  }
+  return toContent(
+    toSubtitles(transcript.segments ?? [], responseFormat),
+    responseFormat
+  );
+}
+
+/**
+ * Creates the runner of a speech-to-text model. `verbose_json` transcripts are
+ * returned as text followed by a data part holding the structured transcript;
+ * SRT and VTT subtitles are returned as text tagged with their content type.
+ *
+ * Audio over the upload limit, or longer than `chunkDuration`, is split into
+ * overlapping chunks that are transcribed concurrently and stitched together.
+ * When streaming is requested, models other than whisper-1 stream the
+ * transcript as it is generated.
+ * @param name The name of the speech-to-text model.
+ * @param client The OpenAI client instance.
+ * @returns The runner that Genkit will call when the model is invoked.
+ */
+export function sttRunner(name: string, client: OpenAI) {
+  return async (
+    request: GenerateRequest<typeof Whisper1ConfigSchema>,
+    {
+      streamingRequested,
+      sendChunk,
+      abortSignal,
+    }: {
+      streamingRequested?: boolean;
+      sendChunk?: StreamingCallback<GenerateResponseChunkData>;
+      abortSignal?: AbortSignal;
+    }
+  ): Promise<GenerateResponseData> => {
+    const params = toWhisper1Request(name, request);
+    const audio = toAudioInput(request);
+    const streamCallback = streamingRequested ? sendChunk : undefined;
+    const chunks = toAudioChunks(audio, request.config);
+    if (chunks) {
+      return toGenerateResponse(
+        await transcribeChunks(
+          client,
+          params,
+          chunks,
+          streamCallback,
+          abortSignal
+        )
+      );
+    }
+    const file = toAudioFile(audio.data, audio.contentType);
+    // whisper-1 and the timed formats do not support streaming
+    if (
+      streamCallback &&
+      !params.model.startsWith('whisper') &&
+      (params.response_format === 'text' || params.response_format === 'json')
+    ) {
+      const stream = await client.audio.transcriptions.create(
+        { ...params, file, stream: true },
+        { signal: abortSignal }
+      );
+      let text = '';
+      for await (const event of stream) {
+        if (event.type === 'transcript.text.delta') {
+          text += event.delta;
+          streamCallback({ index: 0, content: [{ text: event.delta }] });
+        } else if (event.type === 'transcript.text.done') {
+          text = event.text;
+        }
+      }
+      return toGenerateResponse([{ text }]);
+    }
+    // Explicitly setting stream to false ensures we use the non-streaming overload
+    const result = await client.audio.transcriptions.create(
+      {
+        ...params,
+        file,
+        stream: false,
+      },
+      { signal: abortSignal }
+    );
+    return toGenerateResponse(toContent(result, params.response_format));
+  };
+}
+
 export function sttModel(
-  ai: Genkit,
   name: string,
   client: OpenAI
 ): ModelAction<typeof Whisper1ConfigSchema> {
   const modelId = `openai/${name}`;
-  const model = SUPPORTED_STT_MODELS[name];
-  if (!model) throw new Error(`Unsupported model: ${name}`);
+  const ref = SUPPORTED_STT_MODELS[name];
+  if (!ref) throw new Error(`Unsupported model: ${name}`);
 
-  return ai.defineModel<typeof Whisper1ConfigSchema>(
+  return model<typeof Whisper1ConfigSchema>(
     {
       name: modelId,
-      ...model.info,
-      configSchema: model.configSchema,
+      ...ref.info,
+      configSchema: ref.configSchema,
     },
-    async (request) => {
-      const params = toWhisper1Request(request);
-      // Explicitly setting stream to false ensures we use the non-streaming overload
-      const result = await client.audio.transcriptions.create({
-        ...params,
-        stream: false,
-      });
-      return toGenerateResponse(result);
-    }
+    sttRunner(name, client)
   );
 }